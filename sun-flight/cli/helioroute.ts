@@ -0,0 +1,194 @@
+#!/usr/bin/env -S npx tsx
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { DateTime } from 'luxon';
+import { findAirport } from '../src/airports';
+import { analyzeFlight, type FlightSunReport } from '../src/flightAnalysis';
+import { estimateFlightDuration } from '../src/flightTime';
+import { aircraftTypes, findAircraft, windowSeats } from '../src/aircraft';
+import { FEET_PER_METER } from '../src/flightProfile';
+import { LIGHT_PHASES } from '../src/lightWindows';
+import { formatCoordinates } from '../src/sunUtils';
+import { parseRouteFile } from '../src/routeImport';
+import { parseTrackFile } from '../src/trackImport';
+
+const USAGE = `Usage: helioroute <FROM> <TO> (--departure <local ISO time> | --track <file>) [--duration <hours>] [--goal seek|avoid] [--aircraft <type>] [--cruise-altitude <ft>] [--route <file>] [--json]
+
+  FROM, TO          IATA codes, e.g. DEL BLR
+  -d, --departure   Departure time in the origin airport's local time, e.g. 2025-06-22T05:00
+  -t, --duration    Flight time in hours, e.g. 2.5 (estimated from distance if omitted)
+  -g, --goal        'seek' the sunny side (default) or 'avoid' it
+  -a, --aircraft    Aircraft type for concrete seat letters and rows: ${aircraftTypes.map(a => a.code).join(', ')}
+  --cruise-altitude Cruise altitude in feet (default depends on route length)
+  -r, --route       Waypoints actually flown: plain "lat lon" list, GPX or GeoJSON (default great circle)
+  --track           Recorded flight-tracker export (CSV or KML) to replay instead of a prediction;
+                    departure and duration come from the track
+  --json            Print the report as JSON
+  -h, --help        Show this message`;
+
+// Plain-data version of the report for piping into other tools
+function reportToJSON(report: FlightSunReport) {
+  return {
+    source: report.source.iata,
+    destination: report.destination.iata,
+    departure: report.departure.toISO(),
+    arrival: report.arrival.toISO(),
+    durationHours: report.durationHours,
+    cruiseAltitudeM: report.cruiseAltitudeM,
+    distanceKm: report.distanceKm,
+    greatCircleKm: report.greatCircleKm,
+    recommendation: report.recommendation,
+    summary: report.summary,
+    breakdown: report.breakdown,
+    exposure: report.exposure,
+    seat: report.seat,
+    events: report.events.map(ev => ({ ...ev, time: ev.time.toISOString() })),
+    lightWindows: report.lightWindows.map(w => ({ ...w, start: w.start.toISOString(), end: w.end.toISOString() })),
+    moon: {
+      phaseName: report.moon.phaseName,
+      illumination: report.moon.illumination,
+      visible: report.moon.visible,
+      left: report.moon.left,
+      right: report.moon.right,
+      events: report.moon.events.map(ev => ({ ...ev, time: ev.time.toISOString() })),
+    },
+    dstWarnings: report.dstWarnings,
+    predicted: report.predicted,
+  };
+}
+
+// Mirrors the "Helio Side", "Sunset & Sunrise Info" and "Moon" panels of the web UI
+function formatReport(report: FlightSunReport): string {
+  const { source, destination, departure, arrival } = report;
+  const lines = [
+    `${source.iata} (${source.city}) → ${destination.iata} (${destination.city})`,
+    `Departure: ${departure.toFormat('yyyy-LL-dd HH:mm ZZZZ')}`,
+    `Arrival:   ${arrival.toFormat('yyyy-LL-dd HH:mm ZZZZ')}`,
+    `Cruise:    ${Math.round(report.cruiseAltitudeM * FEET_PER_METER).toLocaleString('en-US')} ft`,
+    `Distance:  ${Math.round(report.distanceKm).toLocaleString('en-US')} km`
+      + (report.distanceKm - report.greatCircleKm > 1 ? ` (great circle ${Math.round(report.greatCircleKm).toLocaleString('en-US')} km)` : ''),
+    ...report.dstWarnings,
+    '',
+    `Helio Side: ${report.recommendation}`,
+    ...(report.seat ? [report.seat.text] : []),
+    report.summary,
+  ];
+  if (report.predicted) {
+    const { breakdown: actual } = report;
+    const { breakdown: predicted, recommendation } = report.predicted;
+    const diff = (key: keyof typeof actual) => `${actual[key] - predicted[key] >= 0 ? '+' : ''}${actual[key] - predicted[key]}`;
+    lines.push(`Great-circle prediction: ${recommendation}; ${predicted.visible}% visible, ${predicted.left}% left, ${predicted.right}% right`
+      + ` (recorded ${diff('visible')}, ${diff('left')}, ${diff('right')} points)`);
+  }
+  if (report.exposure.side) {
+    const { windowA, windowF, confidence } = report.exposure;
+    const seats = windowSeats(report.aircraft);
+    lines.push(`Window ${seats.left} (left) ${windowA.toFixed(1)} h, window ${seats.right} (right) ${windowF.toFixed(1)} h of weighted sun; confidence ${Math.round(confidence * 100)}%`);
+  }
+  lines.push('');
+  if (report.events.length === 0) {
+    lines.push('No sunrise or sunset events along the flight path.');
+  } else {
+    lines.push('Sun events:');
+    for (const ev of report.events) {
+      const time = DateTime.fromJSDate(ev.time, { zone: source.timezone });
+      const label = ev.type === 'sunrise' ? 'Sunrise' : 'Sunset ';
+      lines.push(`  ${label}  ${time.toFormat('HH:mm, dd LLL yyyy ZZZZ')}  ${ev.position}, azimuth ${ev.azimuth.toFixed(1)}°, at ${formatCoordinates(ev.lat, ev.lon)}`);
+    }
+  }
+  if (report.lightWindows.length > 0) {
+    lines.push('Light windows:');
+    for (const w of report.lightWindows) {
+      const start = w.openStart ? 'departure' : DateTime.fromJSDate(w.start, { zone: source.timezone }).toFormat('HH:mm');
+      const end = w.openEnd ? 'arrival' : DateTime.fromJSDate(w.end, { zone: source.timezone }).toFormat('HH:mm');
+      lines.push(`  ${LIGHT_PHASES[w.phase].label.padEnd(21)}  ${start}–${end}  glow ${w.side}, azimuth ${w.azimuth.toFixed(1)}°`);
+    }
+  }
+  const { moon } = report;
+  lines.push('');
+  lines.push(`Moon: ${moon.phaseName}, ${Math.round(moon.illumination * 100)}% illuminated, in view ${moon.visible}% of the flight (${moon.left}% left, ${moon.right}% right)`);
+  for (const ev of moon.events) {
+    const time = DateTime.fromJSDate(ev.time, { zone: source.timezone });
+    const label = ev.type === 'moonrise' ? 'Moonrise' : 'Moonset ';
+    lines.push(`  ${label}  ${time.toFormat('HH:mm, dd LLL yyyy ZZZZ')}  ${ev.position}, azimuth ${ev.azimuth.toFixed(1)}°, at ${formatCoordinates(ev.lat, ev.lon)}`);
+  }
+  return lines.join('\n');
+}
+
+function main(argv: string[]): number {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        departure: { type: 'string', short: 'd' },
+        duration: { type: 'string', short: 't' },
+        goal: { type: 'string', short: 'g', default: 'seek' },
+        aircraft: { type: 'string', short: 'a' },
+        'cruise-altitude': { type: 'string' },
+        route: { type: 'string', short: 'r' },
+        track: { type: 'string' },
+        json: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (err) {
+    console.error((err as Error).message);
+    console.error(USAGE);
+    return 2;
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 2 || (!values.departure && !values.track)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (values.goal !== 'seek' && values.goal !== 'avoid') {
+    console.error(`Unknown goal: ${values.goal}`);
+    return 2;
+  }
+
+  const aircraft = values.aircraft !== undefined ? findAircraft(values.aircraft) : undefined;
+  if (values.aircraft !== undefined && !aircraft) {
+    console.error(`Unknown aircraft type: ${values.aircraft}`);
+    return 2;
+  }
+
+  const [fromCode, toCode] = positionals;
+  const source = findAirport(fromCode);
+  const destination = findAirport(toCode);
+  if (!source || !destination) {
+    console.error(`Unknown airport code: ${!source ? fromCode : toCode}`);
+    return 1;
+  }
+
+  try {
+    const waypoints = values.route !== undefined ? parseRouteFile(readFileSync(values.route, 'utf8')) : undefined;
+    const track = values.track !== undefined ? parseTrackFile(readFileSync(values.track, 'utf8')) : undefined;
+    const report = analyzeFlight({
+      source,
+      destination,
+      departure: values.departure ?? '',
+      durationHours: values.duration !== undefined
+        ? Number(values.duration)
+        : Number(estimateFlightDuration(source, destination).hours.toFixed(1)),
+      goal: values.goal,
+      aircraft,
+      cruiseAltitudeM: values['cruise-altitude'] !== undefined ? Number(values['cruise-altitude']) / FEET_PER_METER : undefined,
+      waypoints,
+      track,
+    });
+    console.log(values.json ? JSON.stringify(reportToJSON(report), null, 2) : formatReport(report));
+    return 0;
+  } catch (err) {
+    console.error((err as Error).message);
+    return 1;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
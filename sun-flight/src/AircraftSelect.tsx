@@ -0,0 +1,19 @@
+import { aircraftTypes } from './aircraft'
+
+interface AircraftSelectProps {
+  id: string;
+  value: string; // aircraft code, empty when unknown
+  onChange: (code: string) => void;
+  className?: string;
+}
+
+export default function AircraftSelect({ id, value, onChange, className }: AircraftSelectProps) {
+  return (
+    <select id={id} value={value} onChange={e => onChange(e.target.value)} className={className}>
+      <option value="">Unknown / generic</option>
+      {aircraftTypes.map(aircraft => (
+        <option key={aircraft.code} value={aircraft.code}>{aircraft.name}</option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import Select, { type MenuListProps } from 'react-select';
+import { FixedSizeList as List } from 'react-window';
+import { allAirports } from './airports';
+import { createAirportIndex, searchAirports } from './airportSearch';
+
+interface AirportOption {
+  value: string;
+  label: string;
+  airport: any; // Store the full airport object
+}
+
+const airportOptions: AirportOption[] = allAirports.map(airport => ({
+  value: airport.iata,
+  label: `${airport.iata} - ${airport.city}, ${airport.country}`,
+  airport: airport
+}));
+const optionByIata = new Map(airportOptions.map(opt => [opt.value, opt]));
+
+// Built once and shared by every select
+const searchIndex = createAirportIndex(allAirports);
+const SEARCH_LIMIT = 100;
+
+const customSelectStyles = {
+  control: (provided: any, state: any) => ({
+    ...provided,
+    backgroundColor: 'rgba(15, 23, 42, 0.7)',
+    borderRadius: '0.5rem',
+    border: state.isFocused ? '2px solid #f59e0b' : '2px solid transparent',
+    boxShadow: 'none',
+    minHeight: '44px',
+    '&:hover': {
+      borderColor: '#f59e0b'
+    }
+  }),
+  menu: (provided: any) => ({
+    ...provided,
+    backgroundColor: 'rgba(15, 23, 42, 0.95)',
+    backdropFilter: 'blur(10px)',
+    borderRadius: '0.5rem',
+    border: '1px solid rgba(71, 85, 105, 0.5)',
+    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.5)',
+    zIndex: 1000,
+    marginTop: '4px',
+  }),
+  option: (provided: any, state: any) => ({
+    ...provided,
+    backgroundColor: state.isSelected ? '#f59e0b' : state.isFocused ? 'rgba(251, 191, 36, 0.2)' : 'transparent',
+    color: state.isSelected ? '#1e293b' : '#d1d5db',
+    padding: '12px 16px',
+    cursor: 'pointer',
+    margin: '2px 8px',
+    borderRadius: '0.375rem',
+    '&:active': {
+      backgroundColor: 'rgba(251, 191, 36, 0.3)'
+    }
+  }),
+  singleValue: (provided: any) => ({
+    ...provided,
+    color: '#d1d5db',
+    fontWeight: '500',
+  }),
+  input: (provided: any) => ({
+    ...provided,
+    color: '#d1d5db'
+  }),
+  placeholder: (provided: any) => ({
+    ...provided,
+    color: '#64748b',
+  }),
+  noOptionsMessage: (provided: any) => ({
+    ...provided,
+    color: '#64748b',
+    backgroundColor: 'rgba(15, 23, 42, 0.7)',
+    padding: '16px',
+  }),
+  menuList: (provided: any) => ({
+    ...provided,
+    padding: '4px',
+  })
+};
+
+// Custom Option component for better airport display
+const CustomOption = ({ data, isFocused, isSelected, innerProps }: any) => {
+  const airport = data.airport;
+  return (
+    <div
+      {...innerProps}
+      className={`p-3 cursor-pointer transition-colors w-full ${
+        isSelected ? 'bg-amber-500 text-slate-900' : 
+        isFocused ? 'bg-amber-500/20 text-slate-200' : 'text-slate-300'
+      }`}
+    >
+      <div className="flex items-center w-full">
+        <div className="flex-1 min-w-0">
+          <div className="font-semibold text-sm truncate">
+            {airport.iata}
+            {airport.icao && <span className="ml-2 text-xs font-normal opacity-60">{airport.icao}</span>}
+            {airport.metro && <span className="ml-2 text-xs font-normal opacity-60">{airport.metro}</span>}
+          </div>
+          <div className="text-xs opacity-80 truncate">{airport.city}, {airport.country}</div>
+          <div className="text-xs opacity-60 truncate">{airport.name}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const MenuList = (props: MenuListProps<AirportOption>) => {
+  const { options, children, maxHeight, getValue } = props;
+  const [value] = getValue();
+  const initialOffset = Array.isArray(options) ? options.indexOf(value) * 50 : 0; // Reduced item size
+
+  return (
+    <List
+      width="100%"
+      height={maxHeight}
+      itemCount={Array.isArray(children) ? children.length : 0}
+      itemSize={50} // Reduced for better fit
+      initialScrollOffset={initialOffset}
+    >
+      {({ index, style }) => (
+        <div style={{ ...style, width: '100%', overflow: 'hidden' }}>
+          {Array.isArray(children) ? children[index] : null}
+        </div>
+      )}
+    </List>
+  );
+};
+
+interface AirportSelectProps {
+  id: string;
+  value: string; // IATA code
+  onChange: (iata: string) => void;
+  placeholder?: string;
+}
+
+// Searchable, virtualized airport picker shared by every origin/destination field.
+// Typing ranks matches with the airport search index instead of react-select's filter.
+export default function AirportSelect({ id, value, onChange, placeholder }: AirportSelectProps) {
+  const [inputValue, setInputValue] = useState('');
+  const options = inputValue.trim()
+    ? searchAirports(searchIndex, inputValue, SEARCH_LIMIT).map(airport => optionByIata.get(airport.iata)!)
+    : airportOptions;
+
+  return (
+    <Select<AirportOption>
+      id={id}
+      options={options}
+      value={optionByIata.get(value)}
+      inputValue={inputValue}
+      onInputChange={setInputValue}
+      onChange={(selectedOption) => {
+        if (selectedOption) {
+          onChange(selectedOption.value);
+        }
+      }}
+      styles={customSelectStyles}
+      placeholder={placeholder}
+      components={{ MenuList, Option: CustomOption }}
+      isSearchable={true}
+      filterOption={null}
+    />
+  );
+}
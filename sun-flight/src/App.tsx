@@ -1,21 +1,55 @@
-import { useState, useEffect } from 'react'
-import { getInitialBearing, interpolateSunAlongRoute, interpolateGreatCircle } from './sunUtils'
-import { MapContainer, TileLayer, Polyline, useMap, CircleMarker, Marker, Popup, Polyline as RLPolyline } from 'react-leaflet'
+import { useState, useEffect, useMemo } from 'react'
+import { analyzeItinerary, journeySampleAt, type ItineraryReport, type JourneySample, type LegInput } from './itinerary'
+import { MapContainer, TileLayer, Polyline, Polygon, useMap, useMapEvents, CircleMarker, Marker, Popup, Polyline as RLPolyline } from 'react-leaflet'
 import 'leaflet/dist/leaflet.css'
 import airports from './airports.json'
 import { DateTime } from 'luxon'
-import SunCalc from 'suncalc'
-import { FaPlaneDeparture, FaPlaneArrival, FaCalendarAlt, FaClock, FaQrcode, FaStar, FaTrash, FaSun, FaLink, FaCopy } from 'react-icons/fa';
-import Select, { components, type MenuListProps } from 'react-select';
-import { FixedSizeList as List } from 'react-window';
+import { getSubsolarPoint, getTerminator, getNightPolygon } from './sunUtils'
+import { FaPlaneDeparture, FaPlaneArrival, FaCalendarAlt, FaClock, FaQrcode, FaStar, FaTrash, FaSun, FaLink, FaCopy, FaDownload, FaPlay, FaPause } from 'react-icons/fa';
 import L from 'leaflet';
+import AirportSelect from './AirportSelect';
+import CustomEndpointField from './CustomEndpointField';
+import BatchPanel from './BatchPanel';
+import type { BatchRow } from './batch';
+import ConnectionLegs, { type ConnectionForm } from './ConnectionLegs';
+import { findAirport, type Airport } from './airports';
+import { coordinatesToAirport, endpointSlug, placeToAirport } from './geocode';
+import { estimateFlightDuration, resolveFlightTime } from './flightTime';
+import type { SeatGoal } from './exposure';
+import { findAircraft, windowSeats } from './aircraft';
+import AircraftSelect from './AircraftSelect';
+import CabinDiagram from './CabinDiagram';
+import { defaultCruiseAltitude, FEET_PER_METER } from './flightProfile';
+import { moonAt } from './moonAnalysis';
+import MoonPanel from './MoonPanel';
+import { LIGHT_PHASES, type LightPhase } from './lightWindows';
+import { splitAtAntimeridian } from './flightAnalysis';
+import FileImportField from './FileImportField';
+import { parseRouteFile } from './routeImport';
+import { parseTrackFile, type TrackPoint } from './trackImport';
+import TrackComparison from './TrackComparison';
+import { itineraryToIcs } from './ical';
+import { itineraryToGeoJson, itineraryToGpx, itineraryToKml } from './geoExport';
+import { downloadFile } from './download';
+import { renderResultCardSvg } from './resultCard';
+import { svgToJpeg, svgToPng } from './cardImage';
+import { imageToPdf } from './pdf';
+import SunTimelineChart from './SunTimelineChart';
+import CabinView from './CabinView';
+import DepartureOptimizer from './DepartureOptimizer';
+import OfflineBasemap from './OfflineBasemap';
+import TimezoneTimeline from './TimezoneTimeline';
+import { REFERENCE_ZONES, describeZone, findTimezoneCrossings, formatInZone, referenceZoneName, type ReferenceZone } from './timeZones';
+import markerIcon from 'leaflet/dist/images/marker-icon.png';
+import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
+import markerShadow from 'leaflet/dist/images/marker-shadow.png';
 
 // Fix Leaflet default icon issue
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
-  iconRetinaUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon-2x.png',
-  iconUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon.png',
-  shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
+  iconRetinaUrl: markerIcon2x,
+  iconUrl: markerIcon,
+  shadowUrl: markerShadow,
 });
 
 // Force deployment update - Enhanced markers and UI improvements
@@ -44,122 +78,82 @@ const createCustomIcon = (color: string, icon: any) => {
 
 const departureIcon = createCustomIcon('#10b981', '✈️');
 const arrivalIcon = createCustomIcon('#ef4444', '✈️');
-const planeIcon = createCustomIcon('#3b82f6', '✈️');
+const connectionIcon = createCustomIcon('#f59e0b', '✈️');
 
-interface AirportOption {
-  value: string;
-  label: string;
-  airport: any; // Store the full airport object
-}
-
-const airportOptions: AirportOption[] = airports.map(airport => ({
-  value: airport.iata,
-  label: `${airport.iata} - ${airport.city}, ${airport.country}`,
-  airport: airport
-}));
-
-const customSelectStyles = {
-  control: (provided: any, state: any) => ({
-    ...provided,
-    backgroundColor: 'rgba(15, 23, 42, 0.7)',
-    borderRadius: '0.5rem',
-    border: state.isFocused ? '2px solid #f59e0b' : '2px solid transparent',
-    boxShadow: 'none',
-    minHeight: '44px',
-    '&:hover': {
-      borderColor: '#f59e0b'
-    }
-  }),
-  menu: (provided: any) => ({
-    ...provided,
-    backgroundColor: 'rgba(15, 23, 42, 0.95)',
-    backdropFilter: 'blur(10px)',
-    borderRadius: '0.5rem',
-    border: '1px solid rgba(71, 85, 105, 0.5)',
-    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.5)',
-    zIndex: 1000,
-    marginTop: '4px',
-  }),
-  option: (provided: any, state: any) => ({
-    ...provided,
-    backgroundColor: state.isSelected ? '#f59e0b' : state.isFocused ? 'rgba(251, 191, 36, 0.2)' : 'transparent',
-    color: state.isSelected ? '#1e293b' : '#d1d5db',
-    padding: '12px 16px',
-    cursor: 'pointer',
-    margin: '2px 8px',
-    borderRadius: '0.375rem',
-    '&:active': {
-      backgroundColor: 'rgba(251, 191, 36, 0.3)'
-    }
-  }),
-  singleValue: (provided: any) => ({
-    ...provided,
-    color: '#d1d5db',
-    fontWeight: '500',
-  }),
-  input: (provided: any) => ({
-    ...provided,
-    color: '#d1d5db'
-  }),
-  placeholder: (provided: any) => ({
-    ...provided,
-    color: '#64748b',
-  }),
-  noOptionsMessage: (provided: any) => ({
-    ...provided,
-    color: '#64748b',
-    backgroundColor: 'rgba(15, 23, 42, 0.7)',
-    padding: '16px',
-  }),
-  menuList: (provided: any) => ({
-    ...provided,
-    padding: '4px',
-  })
+// Plane marker turned to the aircraft's heading, with an arrow on its rim
+// pointing towards the sun (faded while the sun is below the horizon)
+const createPlaneIcon = (heading: number, sunAzimuth: number, sunUp: boolean) => {
+  return L.divIcon({
+    html: `<div style="position: relative; width: 36px; height: 36px;">
+      <div style="position: absolute; inset: 0; transform: rotate(${sunAzimuth.toFixed(1)}deg);">
+        <div style="
+          position: absolute;
+          left: 13px;
+          top: -4px;
+          border-left: 5px solid transparent;
+          border-right: 5px solid transparent;
+          border-bottom: 9px solid #f59e0b;
+          opacity: ${sunUp ? 1 : 0.35};
+        "></div>
+      </div>
+      <div style="
+        position: absolute;
+        inset: 6px;
+        background: #3b82f6;
+        border: 2px solid white;
+        border-radius: 50%;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+      ">
+        <svg viewBox="0 0 24 24" width="14" height="14" style="transform: rotate(${heading.toFixed(1)}deg);">
+          <path fill="white" d="M12 2l1.5 7 7.5 4v2l-7.5-2-.5 6 2.5 2v1.5L12 21l-3.5 1.5V21l2.5-2-.5-6-7.5 2v-2l7.5-4z"/>
+        </svg>
+      </div>
+    </div>`,
+    className: 'custom-marker',
+    iconSize: [36, 36],
+    iconAnchor: [18, 18],
+  });
 };
 
-// Custom Option component for better airport display
-const CustomOption = ({ data, isFocused, isSelected, innerProps, ...props }: any) => {
-  const airport = data.airport;
-  return (
-    <div
-      {...innerProps}
-      className={`p-3 cursor-pointer transition-colors w-full ${
-        isSelected ? 'bg-amber-500 text-slate-900' : 
-        isFocused ? 'bg-amber-500/20 text-slate-200' : 'text-slate-300'
-      }`}
-    >
-      <div className="flex items-center w-full">
-        <div className="flex-1 min-w-0">
-          <div className="font-semibold text-sm truncate">{airport.iata}</div>
-          <div className="text-xs opacity-80 truncate">{airport.city}, {airport.country}</div>
-          <div className="text-xs opacity-60 truncate">{airport.name}</div>
-        </div>
-      </div>
-    </div>
-  );
+// Moon marker set off from the aircraft towards the moon's azimuth, clear of
+// the plane and sun markers at the same position (faded while it is down)
+const MOON_OFFSET_PX = 30;
+const createMoonIcon = (azimuth: number, up: boolean) => {
+  const rad = (azimuth * Math.PI) / 180;
+  const dx = Math.sin(rad) * MOON_OFFSET_PX;
+  const dy = -Math.cos(rad) * MOON_OFFSET_PX;
+  return L.divIcon({
+    html: `<div style="
+      width: 12px;
+      height: 12px;
+      background: #e2e8f0;
+      border: 1px solid #64748b;
+      border-radius: 50%;
+      box-shadow: 0 0 6px rgba(226,232,240,0.6);
+      opacity: ${up ? 0.9 : 0.35};
+    "></div>`,
+    className: 'custom-marker',
+    iconSize: [12, 12],
+    iconAnchor: [6 - dx, 6 - dy],
+    popupAnchor: [dx, dy - 6],
+  });
 };
 
-const MenuList = (props: MenuListProps<AirportOption>) => {
-  const { options, children, maxHeight, getValue } = props;
-  const [value] = getValue();
-  const initialOffset = Array.isArray(options) ? options.indexOf(value) * 50 : 0; // Reduced item size
+// A custom endpoint in a share link: `lat,lon` for a pin, `lat,lon,name` for a named place
+const placeParam = (place: Airport) =>
+  [place.lat.toFixed(4), place.lon.toFixed(4), ...(place.iata === 'PIN*' ? [] : [place.name])].join(',');
 
-  return (
-    <List
-      width="100%"
-      height={maxHeight}
-      itemCount={Array.isArray(children) ? children.length : 0}
-      itemSize={50} // Reduced for better fit
-      initialScrollOffset={initialOffset}
-    >
-      {({ index, style }) => (
-        <div style={{ ...style, width: '100%', overflow: 'hidden' }}>
-          {Array.isArray(children) ? children[index] : null}
-        </div>
-      )}
-    </List>
-  );
-};
+function parsePlaceParam(param: string | null): Airport | null {
+  if (!param) return null;
+  const [latText, lonText, ...nameParts] = param.split(',');
+  const lat = Number(latText), lon = Number(lonText);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  const name = nameParts.join(',').trim();
+  return name ? placeToAirport({ name, lat, lon }) : coordinatesToAirport(lat, lon);
+}
 
 // Map controller component that handles bounds fitting
 function FitBounds({ bounds }: { bounds: L.LatLngBoundsExpression }) {
@@ -172,68 +166,72 @@ function FitBounds({ bounds }: { bounds: L.LatLngBoundsExpression }) {
   return null
 }
 
-function isDSTChange(dt: DateTime) {
-  // Returns true if this date is a DST changeover (offset changes that day)
-  const startOfDay = dt.startOf('day');
-  const endOfDay = dt.endOf('day');
-  return startOfDay.offset !== endOfDay.offset;
+// Turns the next map click into a dropped-pin endpoint
+function PinPicker({ onPick }: { onPick: (lat: number, lon: number) => void }) {
+  useMapEvents({
+    click(e) {
+      onPick(e.latlng.lat, L.Util.wrapNum(e.latlng.lng, [-180, 180], true));
+    },
+  })
+  return null
 }
 
-// Calculate subsolar point (where the sun is directly overhead)
-function getSubsolarPoint(date: Date) {
-  // Sun declination
-  const rad = Math.PI / 180;
-  const day = date.getUTCDate();
-  const month = date.getUTCMonth() + 1;
-  const year = date.getUTCFullYear();
-  const N1 = Math.floor(275 * month / 9);
-  const N2 = Math.floor((month + 9) / 12);
-  const N3 = (1 + Math.floor((year - 4 * Math.floor(year / 4) + 2) / 3));
-  const N = N1 - (N2 * N3) + day - 30;
-  const decl = 23.44 * Math.sin(rad * ((360 / 365) * (N - 81)));
-  // Subsolar longitude
-  const minutes = date.getUTCHours() * 60 + date.getUTCMinutes();
-  const lon = 180 - (minutes / 4); // 180 at 0:00 UTC, -180 at 24:00 UTC
-  return { lat: decl, lon };
-}
+// Sun altitudes bounding the night and the civil, nautical and astronomical twilight bands
+const TWILIGHT_BANDS = [0, -6, -12, -18];
 
-// Calculate day/night terminator as a polyline
-function getTerminatorPolyline(date: Date) {
-  const points: [number, number][] = [];
-  for (let lon = -180; lon <= 180; lon += 2) {
-    const sun = SunCalc.getPosition(date, 0, lon);
-    const decl = sun.declination * 180 / Math.PI;
-    if (Number.isFinite(decl)) {
-      points.push([decl, lon]);
-    }
-  }
-  return points;
-}
+// Playback speeds in flight minutes per second of real time
+const PLAYBACK_SPEEDS = [1, 5, 15, 30, 60];
+const PLAYBACK_FRAME_MS = 50;
+
+// Sidebar event filters: sunrise/sunset plus each light phase
+type EventFilter = 'sun' | LightPhase;
+const EVENT_FILTERS: { key: EventFilter; label: string; color: string }[] = [
+  { key: 'sun', label: 'Sunrise/sunset', color: '#f59e0b' },
+  ...(Object.keys(LIGHT_PHASES) as LightPhase[]).map(key => ({ key, label: LIGHT_PHASES[key].label, color: LIGHT_PHASES[key].color })),
+];
+// Broad bands first so the narrower golden and blue hours are drawn on top
+const HIGHLIGHT_ORDER: LightPhase[] = ['astronomical', 'nautical', 'civil', 'blue', 'golden'];
 
 function App() {
   const [sourceIATA, setSourceIATA] = useState('DEL')
   const [destIATA, setDestIATA] = useState('BLR')
   const [departure, setDeparture] = useState('2025-06-22T05:00')
-  const [flightTime, setFlightTime] = useState('24')
+  const [flightTime, setFlightTime] = useState('')
+  const [autoDuration, setAutoDuration] = useState(true)
 
   const [sourceAirport, setSourceAirport] = useState<any>(airports.find(a => a.iata === 'DEL'))
   const [destAirport, setDestAirport] = useState<any>(airports.find(a => a.iata === 'BLR'))
+  // Places, coordinates or pins used instead of the selected airports
+  const [customSource, setCustomSource] = useState<Airport | null>(null)
+  const [customDest, setCustomDest] = useState<Airport | null>(null)
+  const [pickingEndpoint, setPickingEndpoint] = useState<'source' | 'dest' | null>(null)
   
-  const [recommendation, setRecommendation] = useState('')
-  const [flightPath, setFlightPath] = useState<[number, number][]>([])
-  const [flightPathSegments, setFlightPathSegments] = useState<[number, number][][]>([])
+  const [connections, setConnections] = useState<ConnectionForm[]>([])
+  const [goal, setGoal] = useState<SeatGoal>('seek')
+  const [aircraftCode, setAircraftCode] = useState('')
+  const [cruiseAltitudeFt, setCruiseAltitudeFt] = useState('') // empty = default for the route length
+  const [routeWaypoints, setRouteWaypoints] = useState<[number, number][] | null>(null) // first leg; null = great circle
+  const [recordedTrack, setRecordedTrack] = useState<TrackPoint[] | null>(null) // first leg replay; overrides the route and times
+  const [report, setReport] = useState<ItineraryReport | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
-  const [depTime, setDepTime] = useState<DateTime | null>(null)
-  const [arrivalTime, setArrivalTime] = useState<DateTime | null>(null)
-  const [dstWarning, setDstWarning] = useState<string | null>(null)
-  const [sunSummary, setSunSummary] = useState<string>('')
-  const [sunEvents, setSunEvents] = useState<Array<{ type: 'sunrise' | 'sunset'; time: Date; lat: number; lon: number; azimuth: number; position: string }>>([])
   const [mapTime, setMapTime] = useState<Date>(() => new Date());
+  const [playing, setPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(15);
   const [darkMode, setDarkMode] = useState(true);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [showTwilight, setShowTwilight] = useState(true);
+  const [referenceZone, setReferenceZone] = useState<ReferenceZone>('origin');
+  const [eventFilters, setEventFilters] = useState<EventFilter[]>(EVENT_FILTERS.map(f => f.key));
   const [favorites, setFavorites] = useState<Array<{ source: string, dest: string }>>([]);
   const [showCopyFeedback, setShowCopyFeedback] = useState(false);
 
+  const selectedSource = customSource ?? airports.find(a => a.iata === sourceIATA);
+  const selectedDest = customDest ?? airports.find(a => a.iata === destIATA);
+  const durationEstimate = selectedSource && selectedDest ? estimateFlightDuration(selectedSource, selectedDest) : null;
+  // In auto mode the flight time follows the selected airports until the user types their own
+  const effectiveFlightTime = resolveFlightTime(autoDuration, flightTime, selectedSource, selectedDest);
+
   const isCurrentFavorite = favorites.some(
     fav => fav.source === sourceIATA && fav.dest === destIATA
   );
@@ -251,6 +249,31 @@ function App() {
     localStorage.setItem('sunFlightFavorites', JSON.stringify(favorites));
   }, [favorites]);
 
+  // Advance the map time while playing, stopping at arrival
+  useEffect(() => {
+    if (!playing || !report) return;
+    const end = report.arrival.toMillis();
+    let last = performance.now();
+    const timer = window.setInterval(() => {
+      const now = performance.now();
+      const step = (now - last) * playbackSpeed * 60;
+      last = now;
+      setMapTime(prev => new Date(Math.min(end, prev.getTime() + step)));
+    }, PLAYBACK_FRAME_MS);
+    return () => window.clearInterval(timer);
+  }, [playing, playbackSpeed, report]);
+
+  useEffect(() => {
+    if (playing && report && mapTime.getTime() >= report.arrival.toMillis()) setPlaying(false);
+  }, [playing, report, mapTime]);
+
+  // Starting at the end replays from departure
+  const togglePlayback = () => {
+    if (!report) return;
+    if (!playing && mapTime.getTime() >= report.arrival.toMillis()) setMapTime(report.departure.toJSDate());
+    setPlaying(!playing);
+  };
+
   const toggleFavorite = () => {
     if (isCurrentFavorite) {
       removeFavorite(sourceIATA, destIATA);
@@ -269,14 +292,40 @@ function App() {
   const loadFavorite = (source: string, dest: string) => {
     setSourceIATA(source);
     setDestIATA(dest);
+    setConnections([]);
     // Optionally, trigger a new calculation automatically
     // handleSubmit(new Event('submit') as any); 
   };
 
+  const loadBatchRow = (row: BatchRow) => {
+    setSourceIATA(row.source.toUpperCase());
+    setDestIATA(row.destination.toUpperCase());
+    setDeparture(row.departure);
+    setFlightTime(row.duration);
+    setAutoDuration(false);
+    setConnections([]);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Picks a departure from the optimizer, keeping the rest of the form
+  const loadDeparture = (value: string) => {
+    setDeparture(value);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const swapAirports = () => {
     const temp = sourceIATA;
     setSourceIATA(destIATA);
     setDestIATA(temp);
+    setCustomSource(customDest);
+    setCustomDest(customSource);
+  };
+
+  const pickEndpoint = (lat: number, lon: number) => {
+    const pin = coordinatesToAirport(lat, lon);
+    if (pickingEndpoint === 'source') setCustomSource(pin);
+    else setCustomDest(pin);
+    setPickingEndpoint(null);
   };
 
   const makeShareLink = () => {
@@ -284,7 +333,18 @@ function App() {
     params.set('source', sourceIATA);
     params.set('destination', destIATA);
     params.set('departure', departure);
-    params.set('duration', flightTime);
+    params.set('duration', effectiveFlightTime);
+    params.set('goal', goal);
+    if (aircraftCode) params.set('aircraft', aircraftCode);
+    // Custom endpoints as `lat,lon` for pins or `lat,lon,name` for places
+    if (customSource) params.set('sourcePlace', placeParam(customSource));
+    if (customDest) params.set('destinationPlace', placeParam(customDest));
+    // Each onward leg as `DEST,layover hours or local departure,duration,aircraft`
+    connections.forEach((conn, i) => {
+      const origin = i === 0 ? selectedDest : findAirport(connections[i - 1].destIATA);
+      const duration = resolveFlightTime(conn.autoDuration, conn.flightTime, origin, findAirport(conn.destIATA));
+      params.append('leg', [conn.destIATA, conn.timing === 'departure' ? conn.departure : conn.layover, conn.autoDuration ? '' : duration, conn.aircraft].join(','));
+    });
     
     const shareableUrl = `${window.location.origin}${window.location.pathname}?${params.toString()}`;
     
@@ -310,6 +370,11 @@ function App() {
     const destinationParam = urlParams.get('destination');
     const departureParam = urlParams.get('departure');
     const durationParam = urlParams.get('duration');
+    const goalParam = urlParams.get('goal');
+    const aircraftParam = urlParams.get('aircraft');
+    const legParams = urlParams.getAll('leg');
+    const sourcePlace = parsePlaceParam(urlParams.get('sourcePlace'));
+    const destinationPlace = parsePlaceParam(urlParams.get('destinationPlace'));
 
     if (sourceParam) {
       setSourceIATA(sourceParam.toUpperCase());
@@ -323,12 +388,40 @@ function App() {
       if (foundDest) setDestAirport(foundDest);
     }
     
+    if (sourcePlace) setCustomSource(sourcePlace);
+    if (destinationPlace) setCustomDest(destinationPlace);
+
     if (departureParam) {
       setDeparture(departureParam);
     }
     
     if (durationParam) {
       setFlightTime(durationParam);
+      setAutoDuration(false);
+    }
+
+    if (goalParam === 'avoid' || goalParam === 'seek') {
+      setGoal(goalParam);
+    }
+
+    if (aircraftParam && findAircraft(aircraftParam)) {
+      setAircraftCode(aircraftParam);
+    }
+
+    if (legParams.length > 0) {
+      setConnections(legParams.map(param => {
+        const [dest = '', timing = '', duration = '', aircraft = ''] = param.split(',');
+        const isDeparture = timing.includes('T');
+        return {
+          destIATA: dest.toUpperCase(),
+          timing: isDeparture ? 'departure' : 'layover',
+          departure: isDeparture ? timing : '',
+          layover: isDeparture ? '0' : timing,
+          flightTime: duration,
+          autoDuration: duration === '',
+          aircraft: findAircraft(aircraft) ? aircraft : '',
+        };
+      }));
     }
   };
 
@@ -345,21 +438,24 @@ function App() {
     }
   }, [darkMode]);
 
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError(null)
-    setRecommendation('')
-    setFlightPath([])
-    setFlightPathSegments([])
-    setDepTime(null)
-    setArrivalTime(null)
-    setDstWarning(null)
-    setSunSummary('')
-    setSunEvents([])
+    setReport(null)
     setLoading(true)
 
-    const foundSource = airports.find(a => a.iata === sourceIATA.toUpperCase());
-    const foundDest = airports.find(a => a.iata === destIATA.toUpperCase());
+    const foundSource = customSource ?? airports.find(a => a.iata === sourceIATA.toUpperCase());
+    const foundDest = customDest ?? airports.find(a => a.iata === destIATA.toUpperCase());
 
     setSourceAirport(foundSource);
     setDestAirport(foundDest);
@@ -370,161 +466,40 @@ function App() {
         return;
     }
 
-    try {
-      const depDT = DateTime.fromISO(departure, { zone: foundSource.timezone })
-      if (!depDT.isValid) throw new Error('Invalid departure time.')
-      const arrDT = depDT.plus({ hours: Number(flightTime) }).setZone(foundDest.timezone)
-      setDepTime(depDT)
-      setArrivalTime(arrDT)
-      
-      let warning = ''
-      if (isDSTChange(depDT)) warning += `Warning: Departure day is a DST changeover in ${foundSource.city}.\n`
-      if (isDSTChange(arrDT)) warning += `Warning: Arrival day is a DST changeover in ${foundDest.city}.`
-      setDstWarning(warning || null)
-      
-      const src = { lat: foundSource.lat, lon: foundSource.lon }
-      const dst = { lat: foundDest.lat, lon: foundDest.lon }
-      
-      // Create a curved flight path with multiple points
-      const createFlightPath = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-        const points: [number, number][] = [];
-        const steps = 20; // Number of points along the path
-        
-        for (let i = 0; i <= steps; i++) {
-          const frac = i / steps;
-          const point = interpolateGreatCircle(lat1, lon1, lat2, lon2, frac);
-          points.push([point.lat, point.lon]);
-        }
-        
-        // Check for date line crossing and split path if needed
-        const segments: [number, number][][] = [];
-        let currentSegment: [number, number][] = [];
-        
-        for (let i = 0; i < points.length; i++) {
-          const point = points[i];
-          
-          if (currentSegment.length === 0) {
-            currentSegment.push(point);
-          } else {
-            const prevPoint = currentSegment[currentSegment.length - 1];
-            const lonDiff = Math.abs(point[1] - prevPoint[1]);
-            
-            // If longitude difference is greater than 180°, it's a date line crossing
-            if (lonDiff > 180) {
-              // End current segment and start new one
-              if (currentSegment.length > 0) {
-                segments.push([...currentSegment]);
-              }
-              currentSegment = [point];
-            } else {
-              currentSegment.push(point);
-            }
-          }
-        }
-        
-        // Add the last segment
-        if (currentSegment.length > 0) {
-          segments.push(currentSegment);
-        }
-        
-        return segments;
-      };
-      
-      const flightPathSegments = createFlightPath(src.lat, src.lon, dst.lat, dst.lon);
-      setFlightPathSegments(flightPathSegments);
-      setFlightPath(flightPathSegments.flat()); // Flatten for backward compatibility
-
-      const intervalMin = 10;
-      const sunPoints = interpolateSunAlongRoute(
-        src.lat, src.lon, dst.lat, dst.lon,
-        depDT.toUTC().toJSDate(), Number(flightTime), intervalMin
-      );
-      
-      let events: Array<{ type: 'sunrise' | 'sunset'; time: Date; lat: number; lon: number; azimuth: number; position: string }> = [];
-      let prevAlt = null;
-      for (let i = 0; i < sunPoints.length; i++) {
-        const p = sunPoints[i];
-        const times = SunCalc.getTimes(p.time, p.lat, p.lon);
-        
-        // Calculate flight heading at this point
-        let heading = 0;
-        if (i < sunPoints.length - 1) {
-          const p2 = sunPoints[i + 1];
-          heading = getInitialBearing(p.lat, p.lon, p2.lat, p2.lon);
-        } else if (i > 0) {
-          const p1 = sunPoints[i - 1];
-          heading = getInitialBearing(p1.lat, p1.lon, p.lat, p.lon);
-        }
-        
-        // Calculate relative sun position
-        const relAngle = (p.azimuth - heading + 360) % 360;
-        let position = '';
-        if (relAngle > 45 && relAngle <= 135) position = 'Right';
-        else if (relAngle > 225 && relAngle <= 315) position = 'Left';
-        else if (relAngle > 315 || relAngle <= 45) position = 'Ahead';
-        else if (relAngle > 135 && relAngle <= 225) position = 'Behind';
-        
-        if (prevAlt !== null && prevAlt < 0 && p.altitude >= 0) {
-          let eventTime = times.sunrise;
-          if (!(eventTime && eventTime >= sunPoints[i-1].time && eventTime <= p.time)) {
-            const frac = -prevAlt / (p.altitude - prevAlt);
-            eventTime = new Date(sunPoints[i-1].time.getTime() + frac * (p.time.getTime() - sunPoints[i-1].time.getTime()));
-          }
-          events.push({ type: 'sunrise', time: eventTime, lat: p.lat, lon: p.lon, azimuth: p.azimuth, position });
-        }
-        if (prevAlt !== null && prevAlt >= 0 && p.altitude < 0) {
-          let eventTime = times.sunset;
-          if (!(eventTime && eventTime >= sunPoints[i-1].time && eventTime <= p.time)) {
-            const frac = prevAlt / (prevAlt - p.altitude);
-            eventTime = new Date(sunPoints[i-1].time.getTime() + frac * (p.time.getTime() - sunPoints[i-1].time.getTime()));
-          }
-          events.push({ type: 'sunset', time: eventTime, lat: p.lat, lon: p.lon, azimuth: p.azimuth, position });
-        }
-        prevAlt = p.altitude;
-      }
-      setSunEvents(events);
-
-      let leftCount = 0, rightCount = 0, aheadCount = 0, behindCount = 0, sunVisible = false, sunIntervals = 0;
-      for (let i = 0; i < sunPoints.length - 1; i++) {
-        const p1 = sunPoints[i];
-        const p2 = sunPoints[i + 1];
-        const heading = getInitialBearing(p1.lat, p1.lon, p2.lat, p2.lon);
-        const relAngle = (p1.azimuth - heading + 360) % 360;
-        if (p1.altitude < 0) {
-        } else {
-          sunVisible = true;
-          sunIntervals++;
-          if (relAngle > 45 && relAngle <= 135) rightCount++;
-          else if (relAngle > 225 && relAngle <= 315) leftCount++;
-          else if (relAngle > 315 || relAngle <= 45) aheadCount++;
-          else if (relAngle > 135 && relAngle <= 225) behindCount++;
-        }
+    const legs: LegInput[] = [{
+      source: foundSource,
+      destination: foundDest,
+      departure,
+      durationHours: Number(effectiveFlightTime),
+      aircraft: findAircraft(aircraftCode),
+      cruiseAltitudeM: cruiseAltitudeFt ? Number(cruiseAltitudeFt) / FEET_PER_METER : undefined,
+      waypoints: routeWaypoints ?? undefined,
+      track: recordedTrack ?? undefined,
+    }];
+    for (const [i, conn] of connections.entries()) {
+      const origin: Airport = legs[legs.length - 1].destination;
+      const next = findAirport(conn.destIATA);
+      if (!next) {
+        setError(`Leg ${i + 2}: please select a valid destination airport.`);
+        setLoading(false);
+        return;
       }
+      legs.push({
+        source: origin,
+        destination: next,
+        departure: conn.timing === 'departure' ? conn.departure : undefined,
+        layoverHours: Number(conn.layover),
+        durationHours: Number(resolveFlightTime(conn.autoDuration, conn.flightTime, origin, next)),
+        aircraft: findAircraft(conn.aircraft),
+      });
+    }
+    setDestAirport(legs[legs.length - 1].destination);
 
-      let seat = '';
-      let summary = '';
-      const totalIntervals = sunPoints.length - 1;
-      if (!sunVisible) {
-        seat = 'Neither (Sun not visible during flight)';
-        summary = 'The sun is below the horizon for the entire flight.';
-      } else {
-        const percentVisible = ((sunIntervals / totalIntervals) * 100).toFixed(0);
-        const leftPercent = sunIntervals ? ((leftCount / sunIntervals) * 100).toFixed(0) : '0';
-        const rightPercent = sunIntervals ? ((rightCount / sunIntervals) * 100).toFixed(0) : '0';
-        const aheadPercent = sunIntervals ? ((aheadCount / sunIntervals) * 100).toFixed(0) : '0';
-        const behindPercent = sunIntervals ? ((behindCount / sunIntervals) * 100).toFixed(0) : '0';
-        if (leftCount > rightCount) {
-          seat = 'Left';
-        } else if (rightCount > leftCount) {
-          seat = 'Right';
-        } else {
-          seat = leftCount > 0 ? 'Left' : 'Neither (Sun not visible during flight)';
-        }
-        summary = `The sun is visible for ${percentVisible}% of the flight: ${leftPercent}% on the left, ${rightPercent}% on the right, ${aheadPercent}% ahead, ${behindPercent}% behind.`;
-      }
-      setRecommendation(seat);
-      setSunSummary(summary);
-      setMapTime(depDT.toJSDate());
+    try {
+      const result = analyzeItinerary(legs, { goal });
+      setReport(result);
+      setMapTime(result.departure.toJSDate());
+      setPlaying(false);
     } catch (err: any) {
       setError(err.message || 'Failed to get flight data.')
     } finally {
@@ -532,6 +507,70 @@ function App() {
     }
   }
 
+  // Base file name for exports, e.g. helioroute-DEL-BLR-2025-06-22 or helioroute-zermatt-ZRH-2025-06-22
+  const exportName = report
+    ? `helioroute-${[report.legs[0].source, ...report.legs.map(leg => leg.destination)].map(endpointSlug).join('-')}-${report.departure.toFormat('yyyy-LL-dd')}`
+    : 'helioroute';
+
+  const downloadCalendar = () => {
+    if (!report) return;
+    downloadFile(`${exportName}.ics`, itineraryToIcs(report), 'text/calendar');
+  };
+
+  const downloadGeo = (format: 'geojson' | 'kml' | 'gpx') => {
+    if (!report) return;
+    const filename = `${exportName}.${format}`;
+    if (format === 'geojson') downloadFile(filename, JSON.stringify(itineraryToGeoJson(report), null, 2), 'application/geo+json');
+    else if (format === 'kml') downloadFile(filename, itineraryToKml(report), 'application/vnd.google-earth.kml+xml');
+    else downloadFile(filename, itineraryToGpx(report), 'application/gpx+xml');
+  };
+
+  const downloadCard = async (format: 'svg' | 'png' | 'pdf') => {
+    if (!report) return;
+    const svg = renderResultCardSvg(report);
+    const filename = `${exportName}-card.${format}`;
+    try {
+      if (format === 'svg') downloadFile(filename, svg, 'image/svg+xml');
+      else if (format === 'png') downloadFile(filename, await svgToPng(svg), 'image/png');
+      else downloadFile(filename, imageToPdf(await svgToJpeg(svg), exportName), 'application/pdf');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the summary card.');
+    }
+  };
+
+  // Memoized on the report: FitBounds refits whenever the path changes identity
+  const flightPathSegments = useMemo(() => (report ? report.legs.flatMap(leg => leg.path) : []), [report]);
+  const flightPath = useMemo(() => flightPathSegments.flat(), [flightPathSegments]);
+  const depTime = report?.departure ?? null;
+  const arrivalTime = report?.arrival ?? null;
+  const sunEvents = report && eventFilters.includes('sun') ? report.events : [];
+  const lightWindows = report
+    ? report.legs
+      .flatMap((leg, i) => leg.lightWindows.map(w => ({ ...w, leg: i })))
+      .filter(w => eventFilters.includes(w.phase))
+    : [];
+  const toggleEventFilter = (key: EventFilter) =>
+    setEventFilters(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+  const isMultiLeg = !!report && report.legs.length > 1;
+  const timezoneCrossings = useMemo(() => (report ? findTimezoneCrossings(report.samples) : []), [report]);
+  // Times on screen are in the chosen reference zone; for 'below' that is
+  // the zone under the given position, or under the aircraft at that time
+  const zoneAt = (lat: number, lon: number) => (report ? referenceZoneName(referenceZone, report, lat, lon) : 'local');
+  const formatAt = (time: Date, lat: number, lon: number, format: string) => formatInZone(time, zoneAt(lat, lon), format);
+  const zoneAtTime = (time: Date) => {
+    if (!report) return zoneAt(0, 0);
+    const { lat, lon } = journeySampleAt(report.samples, time);
+    return zoneAt(lat, lon);
+  };
+  const referenceZoneLabel = !report ? '' : referenceZone === 'below'
+    ? 'the local time of the ground below'
+    : describeZone(zoneAt(0, 0), report.departure.toJSDate());
+  const dstWarning = report && report.dstWarnings.length > 0 ? report.dstWarnings.join('\n') : null;
+  // Every airport the journey touches, in order; before the first run just the selected pair
+  const stopAirports: Airport[] = report
+    ? [report.legs[0].source, ...report.legs.map(leg => leg.destination)]
+    : [sourceAirport, destAirport].filter(Boolean);
+
   let mapBounds: L.LatLngBoundsExpression | undefined = undefined;
   if (flightPath.length > 0 && sourceAirport && destAirport) {
     mapBounds = [[sourceAirport.lat, sourceAirport.lon], [destAirport.lat, destAirport.lon]]
@@ -539,32 +578,27 @@ function App() {
 
   let minTime = depTime ? depTime.toMillis() : Date.now();
   let maxTime = arrivalTime ? arrivalTime.toMillis() : Date.now() + 1;
-  let sunPoints: any[] = [];
-  if (flightPath.length > 0 && depTime && arrivalTime) {
-    sunPoints = interpolateSunAlongRoute(
-      sourceAirport.lat, sourceAirport.lon,
-      destAirport.lat, destAirport.lon,
-      depTime.toUTC().toJSDate(), Number(flightTime), 10
-    );
-  }
+  const sunPoints = report?.samples ?? [];
   let sunPos: [number, number] | null = null;
   let planePos: [number, number] | null = null;
   let sunAz = null;
   let sunAlt = null;
-  let currentSunPoint: any = null;
+  let currentSunPoint: JourneySample | null = null;
   if (sunPoints.length > 0 && mapTime) {
-    let idx = sunPoints.findIndex(p => Math.abs(p.time.getTime() - mapTime.getTime()) < 5 * 60 * 1000);
-    if (idx === -1) idx = 0;
-    currentSunPoint = sunPoints[idx];
+    currentSunPoint = journeySampleAt(sunPoints, mapTime);
     sunPos = [currentSunPoint.lat, currentSunPoint.lon];
     sunAz = currentSunPoint.azimuth;
     sunAlt = currentSunPoint.altitude;
     planePos = [currentSunPoint.lat, currentSunPoint.lon];
   }
+  const currentMoon = currentSunPoint
+    ? moonAt(currentSunPoint.time, currentSunPoint.lat, currentSunPoint.lon, currentSunPoint.heading, currentSunPoint.aircraftAltitude)
+    : null;
 
   // Subsolar point and terminator
   const subsolar = getSubsolarPoint(mapTime);
-  const terminatorPoints = getTerminatorPolyline(mapTime);
+  const terminatorPoints = getTerminator(mapTime);
+  const nightPolygons = (showTwilight ? TWILIGHT_BANDS : [0]).map(altitude => getNightPolygon(mapTime, altitude));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-blue-950 to-gray-900 text-slate-100 flex flex-col font-sans">
@@ -594,29 +628,12 @@ function App() {
             <div className="flex gap-4 items-end">
               <div className="flex-1">
                 <label className="block text-sm font-semibold mb-1 text-slate-300" htmlFor="source">From</label>
-                <Select<AirportOption>
-                  id="source"
-                  options={airportOptions}
-                  value={airportOptions.find(opt => opt.value === sourceIATA)}
-                  onChange={(selectedOption) => {
-                    if (selectedOption) {
-                      setSourceIATA(selectedOption.value);
-                    }
-                  }}
-                  styles={customSelectStyles}
-                  placeholder="Select source..."
-                  components={{ MenuList, Option: CustomOption }}
-                  isSearchable={true}
-                  filterOption={(option, inputValue) => {
-                    const airport = option.data.airport;
-                    const searchTerm = inputValue.toLowerCase();
-                    return (
-                      airport.iata.toLowerCase().includes(searchTerm) ||
-                      airport.city.toLowerCase().includes(searchTerm) ||
-                      airport.country.toLowerCase().includes(searchTerm) ||
-                      airport.name.toLowerCase().includes(searchTerm)
-                    );
-                  }}
+                <AirportSelect id="source" value={sourceIATA} onChange={setSourceIATA} placeholder="Select source..." />
+                <CustomEndpointField
+                  value={customSource}
+                  onChange={setCustomSource}
+                  picking={pickingEndpoint === 'source'}
+                  onPickOnMap={() => setPickingEndpoint(pickingEndpoint === 'source' ? null : 'source')}
                 />
               </div>
               
@@ -634,29 +651,12 @@ function App() {
               
               <div className="flex-1">
                 <label className="block text-sm font-semibold mb-1 text-slate-300" htmlFor="dest">To</label>
-                <Select<AirportOption>
-                  id="dest"
-                  options={airportOptions}
-                  value={airportOptions.find(opt => opt.value === destIATA)}
-                  onChange={(selectedOption) => {
-                    if (selectedOption) {
-                      setDestIATA(selectedOption.value);
-                    }
-                  }}
-                  styles={customSelectStyles}
-                  placeholder="Select destination..."
-                  components={{ MenuList, Option: CustomOption }}
-                  isSearchable={true}
-                  filterOption={(option, inputValue) => {
-                    const airport = option.data.airport;
-                    const searchTerm = inputValue.toLowerCase();
-                    return (
-                      airport.iata.toLowerCase().includes(searchTerm) ||
-                      airport.city.toLowerCase().includes(searchTerm) ||
-                      airport.country.toLowerCase().includes(searchTerm) ||
-                      airport.name.toLowerCase().includes(searchTerm)
-                    );
-                  }}
+                <AirportSelect id="dest" value={destIATA} onChange={setDestIATA} placeholder="Select destination..." />
+                <CustomEndpointField
+                  value={customDest}
+                  onChange={setCustomDest}
+                  picking={pickingEndpoint === 'dest'}
+                  onPickOnMap={() => setPickingEndpoint(pickingEndpoint === 'dest' ? null : 'dest')}
                 />
               </div>
             </div>
@@ -673,19 +673,116 @@ function App() {
                 />
               </div>
               <div className="flex-1">
-                <label className="block text-sm font-semibold mb-1 text-slate-300" htmlFor="flightTime">Flight Time (hrs)</label>
+                <div className="flex justify-between items-center mb-1">
+                  <label className="block text-sm font-semibold text-slate-300" htmlFor="flightTime">Flight Time (hrs)</label>
+                  <label className="flex items-center gap-1 text-xs text-slate-400 cursor-pointer" title="Estimate block time from great-circle distance">
+                    <input
+                      type="checkbox"
+                      className="accent-amber-500"
+                      checked={autoDuration}
+                      onChange={e => {
+                        if (!e.target.checked) setFlightTime(effectiveFlightTime);
+                        setAutoDuration(e.target.checked);
+                      }}
+                    />
+                    Auto
+                  </label>
+                </div>
                 <input
                   id="flightTime"
                   type="number"
                   step="0.1"
                   min="0.1"
                   className="w-full rounded-lg px-3 py-2 bg-slate-900/70 text-white placeholder:text-slate-500 border border-transparent focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
-                  value={flightTime}
-                  onChange={e => setFlightTime(e.target.value)}
+                  value={effectiveFlightTime}
+                  onChange={e => {
+                    setFlightTime(e.target.value);
+                    setAutoDuration(false);
+                  }}
                   required
                 />
               </div>
             </div>
+            {durationEstimate && (
+              <div className="text-xs text-slate-400 -mt-2">
+                Distance: {Math.round(durationEstimate.distanceKm).toLocaleString()} km / {Math.round(durationEstimate.distanceNmi).toLocaleString()} nmi
+                {' · '}Estimated block time: {durationEstimate.hours.toFixed(1)} h{!autoDuration && ' (overridden)'}
+              </div>
+            )}
+            <div className="flex gap-4">
+              <div className="flex-1">
+                <label className="block text-sm font-semibold mb-1 text-slate-300" htmlFor="aircraft">Aircraft</label>
+                <AircraftSelect
+                  id="aircraft"
+                  value={aircraftCode}
+                  onChange={setAircraftCode}
+                  className="w-full rounded-lg px-3 py-2 bg-slate-900/70 text-white border border-transparent focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-semibold mb-1 text-slate-300" htmlFor="cruiseAltitude">Cruise Altitude (ft)</label>
+                <input
+                  id="cruiseAltitude"
+                  type="number"
+                  step="1000"
+                  min="0"
+                  max="45000"
+                  className="w-full rounded-lg px-3 py-2 bg-slate-900/70 text-white placeholder:text-slate-500 border border-transparent focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                  placeholder={durationEstimate ? `Auto (${Math.round(defaultCruiseAltitude(durationEstimate.distanceKm) * FEET_PER_METER / 1000) * 1000})` : 'Auto'}
+                  value={cruiseAltitudeFt}
+                  onChange={e => setCruiseAltitudeFt(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex gap-4">
+              <div className="flex-1 min-w-0">
+                <FileImportField
+                  label="Flown Route"
+                  emptyText="Great circle"
+                  accept=".txt,.csv,.gpx,.geojson,.json"
+                  value={routeWaypoints}
+                  parse={parseRouteFile}
+                  describe={points => `${points.length} waypoints`}
+                  onChange={setRouteWaypoints}
+                />
+              </div>
+              <div className="flex-1 min-w-0">
+                <FileImportField
+                  label="Recorded Track"
+                  emptyText="None"
+                  accept=".csv,.kml"
+                  value={recordedTrack}
+                  parse={parseTrackFile}
+                  describe={track => `${track.length} points, ${DateTime.fromJSDate(track[0].time).toFormat('dd LLL HH:mm')}`}
+                  onChange={setRecordedTrack}
+                />
+              </div>
+            </div>
+            {recordedTrack && (
+              <div className="text-xs text-slate-400 -mt-2">
+                Replaying the recorded track: departure, flight time and route come from the file, and the sun side from its recorded heading.
+              </div>
+            )}
+            <ConnectionLegs firstOrigin={selectedDest} connections={connections} onChange={setConnections} />
+            <div>
+              <span className="block text-sm font-semibold mb-1 text-slate-300">Seat Goal</span>
+              <div className="grid grid-cols-2 gap-2">
+                {([['seek', 'Seek sun & views'], ['avoid', 'Avoid sun']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setGoal(value)}
+                    className={`py-2 rounded-lg text-sm font-semibold border transition-all duration-200 ${
+                      goal === value
+                        ? 'bg-amber-500 text-slate-900 border-amber-500'
+                        : 'bg-slate-900/70 text-slate-300 border-slate-600/50 hover:border-amber-500/50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
             <button
               type="submit"
               className="mt-4 w-full py-3 rounded-lg bg-gradient-to-r from-amber-500 to-orange-600 font-bold text-lg text-white shadow-lg hover:shadow-orange-400/20 hover:scale-[1.02] transition-all duration-300"
@@ -716,20 +813,84 @@ function App() {
                 </>
               )}
             </button>
+            {report && (
+              <div className="mt-2 flex items-center justify-center gap-2 text-xs text-slate-400" title="Download a summary card with the map, recommended side, breakdown and sun times">
+                <FaDownload />
+                Summary card
+                {(['svg', 'png', 'pdf'] as const).map(format => (
+                  <button key={format} type="button" onClick={() => downloadCard(format)} className="uppercase hover:text-amber-400 transition-colors">
+                    {format}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
           
           {error && <div className="mt-2 p-3 bg-red-500/80 rounded-lg text-white font-semibold">{error}</div>}
           {dstWarning && <div className="mt-2 p-3 bg-amber-400/80 rounded-lg text-slate-900 font-semibold whitespace-pre-line">{dstWarning}</div>}
-          {recommendation && (
+          {report && (
             <div className="mt-4 p-4 rounded-xl bg-slate-900/70 backdrop-blur-lg border border-slate-700/50">
               <div className="flex justify-between items-center mb-2">
                 <h3 className="text-lg font-bold text-white">Helio Side</h3>
-                <button onClick={toggleFavorite} className="transition" title={isCurrentFavorite ? "Remove from Favorites" : "Add to Favorites"}>
-                  <FaStar className={isCurrentFavorite ? "text-amber-400" : "text-white"} />
-                </button>
+                <div className="flex items-center gap-3">
+                  <button onClick={downloadCalendar} className="flex items-center gap-1 text-xs text-slate-300 hover:text-amber-400 transition-colors" title="Add the flight and its sunrise/sunset times to your calendar">
+                    <FaCalendarAlt /> Download .ics
+                  </button>
+                  <button onClick={toggleFavorite} className="transition" title={isCurrentFavorite ? "Remove from Favorites" : "Add to Favorites"}>
+                    <FaStar className={isCurrentFavorite ? "text-amber-400" : "text-white"} />
+                  </button>
+                </div>
               </div>
-              <div className="text-3xl font-extrabold text-amber-400 mb-2">{recommendation}</div>
-              <div className="text-sm text-slate-300">{sunSummary}</div>
+              {report.legs.map((leg, i) => (
+                <div key={i} className={i > 0 ? 'mt-4 pt-4 border-t border-slate-700/50' : ''}>
+                  {isMultiLeg && (
+                    <div className="text-xs font-semibold text-slate-400 mb-1">
+                      Leg {i + 1} · {leg.source.iata} → {leg.destination.iata} · {leg.departure.toFormat('HH:mm, dd LLL')}
+                      {report.layovers[i] && ` · then ${report.layovers[i].hours.toFixed(1)} h in ${report.layovers[i].airport.city}`}
+                    </div>
+                  )}
+                  <div className={`${isMultiLeg ? 'text-2xl' : 'text-3xl'} font-extrabold text-amber-400 mb-2`}>{leg.recommendation}</div>
+                  {leg.seat && <div className="text-sm font-semibold text-white mb-2">{leg.seat.text}</div>}
+                  <div className="text-sm text-slate-300">{leg.summary}</div>
+                  {leg.predicted && (
+                    <TrackComparison
+                      actual={leg.breakdown}
+                      predicted={leg.predicted.breakdown}
+                      predictedRecommendation={leg.predicted.recommendation !== leg.recommendation ? leg.predicted.recommendation : null}
+                    />
+                  )}
+                  {leg.distanceKm - leg.greatCircleKm > 1 && (
+                    <div className="mt-1 text-xs text-slate-400">
+                      Flown route {Math.round(leg.distanceKm).toLocaleString()} km, {Math.round(leg.distanceKm - leg.greatCircleKm).toLocaleString()} km longer than the great circle
+                    </div>
+                  )}
+                  {leg.exposure.side && (
+                    <div className="mt-3 text-xs text-slate-400 space-y-1">
+                      <div className="flex justify-between">
+                        <span>Window {windowSeats(leg.aircraft).left} (left): {leg.exposure.windowA.toFixed(1)} h</span>
+                        <span>Window {windowSeats(leg.aircraft).right} (right): {leg.exposure.windowF.toFixed(1)} h</span>
+                      </div>
+                      <div className="flex h-2 rounded-full overflow-hidden bg-slate-700">
+                        <div className="bg-blue-400" style={{ width: `${leg.exposure.shareA * 100}%` }} />
+                        <div className="bg-green-400" style={{ width: `${leg.exposure.shareF * 100}%` }} />
+                      </div>
+                      <div>
+                        {leg.exposure.goal === 'avoid' ? 'Shadier' : 'Sunnier'} side, confidence {Math.round(leg.exposure.confidence * 100)}%
+                        {' '}(weighted by sun height, angle to the window and time)
+                      </div>
+                    </div>
+                  )}
+                  {leg.aircraft && leg.exposure.side && (
+                    <div className="mt-3">
+                      <CabinDiagram
+                        aircraft={leg.aircraft}
+                        sunnySide={leg.exposure.windowA >= leg.exposure.windowF ? 'Left' : 'Right'}
+                        recommendedSide={leg.exposure.side}
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
             </div>
           )}
           {favorites.length > 0 && (
@@ -752,7 +913,33 @@ function App() {
         </section>
         <section className="w-full lg:w-2/5 flex flex-col gap-6">
           <div className="bg-slate-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-700/50 p-6 flex-1 flex flex-col sparkle-on-hover">
-            <h2 className="text-xl font-bold text-white mb-4">Flight Path & Sun Position</h2>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold text-white">Flight Path & Sun Position</h2>
+              {report && (
+                <div className="flex items-center gap-2 text-xs text-slate-400" title="Export the path, sun events and per-sample sun position">
+                  <FaDownload />
+                  {(['geojson', 'kml', 'gpx'] as const).map(format => (
+                    <button key={format} type="button" onClick={() => downloadGeo(format)} className="uppercase hover:text-amber-400 transition-colors">
+                      {format}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <label className="flex items-center gap-1 text-xs text-slate-400 cursor-pointer" title="Shade civil, nautical and astronomical twilight">
+                <input
+                  type="checkbox"
+                  className="accent-amber-500"
+                  checked={showTwilight}
+                  onChange={e => setShowTwilight(e.target.checked)}
+                />
+                Twilight bands
+              </label>
+              {!online && (
+                <span className="text-xs text-amber-400" title="Showing cached map tiles where available, the bundled world map elsewhere">
+                  Offline map
+                </span>
+              )}
+            </div>
             <div className="h-[400px] rounded-lg overflow-hidden border-2 border-slate-700/50 shadow-inner">
               <MapContainer
                 center={sourceAirport ? [sourceAirport.lat, sourceAirport.lon] : [0, 0]}
@@ -761,7 +948,9 @@ function App() {
                 style={{ height: '100%', width: '100%' }}
                 className="z-0"
               >
+                <OfflineBasemap darkMode={darkMode} />
                 <TileLayer
+                  crossOrigin="anonymous" // readable responses for the service worker's tile cache
                   url={darkMode
                     ? "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
                     : "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
@@ -781,25 +970,39 @@ function App() {
                     opacity={0.8}
                   />
                 ))}
+                {HIGHLIGHT_ORDER.flatMap(phase => lightWindows
+                  .filter(w => w.phase === phase)
+                  .flatMap((w, i) => splitAtAntimeridian(w.path).map((segment, j) => (
+                    <Polyline
+                      key={`${phase}-${w.leg}-${i}-${j}`}
+                      positions={segment}
+                      pathOptions={{ color: LIGHT_PHASES[phase].color, weight: 6, opacity: 0.55 }}
+                    />
+                  ))))}
                 {flightPath.length > 0 && (
-                  <FitBounds bounds={flightPath as any} />
-                )}
-                {sourceAirport && (
-                  <Marker position={[sourceAirport.lat, sourceAirport.lon]} icon={departureIcon}>
-                    <Popup>
-                      <div className="font-bold">{sourceAirport.city} ({sourceAirport.iata})</div>
-                      <div>{sourceAirport.name}</div>
-                    </Popup>
-                  </Marker>
+                  <FitBounds bounds={flightPath} />
                 )}
-                {destAirport && (
-                  <Marker position={[destAirport.lat, destAirport.lon]} icon={arrivalIcon}>
+                {pickingEndpoint && <PinPicker onPick={pickEndpoint} />}
+                {stopAirports.map((airport, i) => (
+                  <Marker
+                    key={`${airport.iata}-${i}`}
+                    position={[airport.lat, airport.lon]}
+                    icon={i === 0 ? departureIcon : i === stopAirports.length - 1 ? arrivalIcon : connectionIcon}
+                  >
                     <Popup>
-                      <div className="font-bold">{destAirport.city} ({destAirport.iata})</div>
-                      <div>{destAirport.name}</div>
+                      <div className="font-bold">{airport.city} ({airport.iata})</div>
+                      <div>{airport.name}</div>
                     </Popup>
                   </Marker>
-                )}
+                ))}
+                {nightPolygons.map((polygon, i) => (
+                  <Polygon
+                    key={i}
+                    positions={polygon}
+                    pathOptions={{ stroke: false, fillColor: '#020617', fillOpacity: showTwilight ? 0.15 : 0.4 }}
+                    interactive={false}
+                  />
+                ))}
                 {terminatorPoints && terminatorPoints.length > 0 && (
                   <Polyline positions={terminatorPoints.map(([lat, lon]) => [lat, lon])} color="#475569" weight={2} dashArray="4" />
                 )}
@@ -811,11 +1014,11 @@ function App() {
                     </Popup>
                   </CircleMarker>
                 )}
-                {planePos && (
-                  <Marker position={planePos} icon={planeIcon}>
+                {planePos && currentSunPoint && (
+                  <Marker position={planePos} icon={createPlaneIcon(currentSunPoint.heading ?? 0, currentSunPoint.azimuth, currentSunPoint.horizonAltitude >= 0)}>
                     <Popup>
                       <div className="font-bold">Plane Position</div>
-                      <div>{DateTime.fromJSDate(mapTime).toFormat('yyyy-LL-dd HH:mm ZZZZ')}</div>
+                      <div>{formatAt(mapTime, planePos[0], planePos[1], 'yyyy-LL-dd HH:mm ZZZZ')}</div>
                     </Popup>
                   </Marker>
                 )}
@@ -826,30 +1029,92 @@ function App() {
                     </Popup>
                   </CircleMarker>
                 )}
+                {sunPos && currentMoon && (
+                  <Marker position={sunPos} icon={createMoonIcon(currentMoon.azimuth, currentMoon.horizonAltitude >= 0)}>
+                    <Popup>
+                      <div className="font-bold text-slate-500">Moon Position</div>
+                      <div>Altitude {currentMoon.altitude.toFixed(1)}°, azimuth {currentMoon.azimuth.toFixed(1)}°</div>
+                      <div>{Math.round(currentMoon.illumination * 100)}% illuminated{currentMoon.horizonAltitude >= 0 && currentMoon.side ? ` · ${currentMoon.side}` : ''}</div>
+                    </Popup>
+                  </Marker>
+                )}
               </MapContainer>
             </div>
+            {report && sunPoints.length > 1 && (
+              <div className="mt-4">
+                <div className="text-sm font-semibold mb-2 text-slate-300">Sun Altitude & Side</div>
+                <SunTimelineChart samples={sunPoints} events={sunEvents} time={mapTime} onTimeChange={setMapTime} zoneAt={zoneAtTime} />
+              </div>
+            )}
             {/* Time slider moved below the map */}
             {depTime && arrivalTime && (
               <div className="mt-4">
-                <label className="block text-sm font-semibold mb-2 text-slate-300" htmlFor="time-slider">Select Time Along Flight</label>
+                <div className="flex justify-between items-center mb-2">
+                  <label className="block text-sm font-semibold text-slate-300" htmlFor="time-slider">Select Time Along Flight</label>
+                  <div className="flex items-center gap-2 text-xs text-slate-400">
+                    <button
+                      type="button"
+                      onClick={togglePlayback}
+                      className="p-1.5 rounded-full bg-slate-700/50 hover:bg-slate-600/50 text-slate-300 hover:text-amber-400 transition-colors"
+                      title={playing ? 'Pause' : 'Play the flight'}
+                      aria-label={playing ? 'Pause' : 'Play'}
+                    >
+                      {playing ? <FaPause /> : <FaPlay />}
+                    </button>
+                    <select
+                      value={playbackSpeed}
+                      onChange={e => setPlaybackSpeed(Number(e.target.value))}
+                      className="bg-slate-900/50 border border-slate-700/50 rounded px-1 py-0.5 text-slate-300"
+                      title="Flight minutes per second"
+                    >
+                      {PLAYBACK_SPEEDS.map(speed => (
+                        <option key={speed} value={speed}>{speed} min/s</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
                 <input
                   id="time-slider"
                   type="range"
                   min={minTime}
                   max={maxTime}
-                  step={10 * 60 * 1000}
+                  step={60 * 1000}
                   value={mapTime.getTime()}
                   onChange={e => setMapTime(new Date(Number(e.target.value)))}
                   className="w-full accent-amber-500"
                 />
-                <div className="text-xs text-slate-400 text-center mt-1">
-                  {DateTime.fromJSDate(mapTime).toFormat('yyyy-LL-dd HH:mm ZZZZ')}
+                <div className="flex items-center justify-center gap-2 text-xs text-slate-400 mt-1">
+                  <span>
+                    {currentSunPoint
+                      ? formatAt(mapTime, currentSunPoint.lat, currentSunPoint.lon, 'yyyy-LL-dd HH:mm ZZZZ')
+                      : DateTime.fromJSDate(mapTime).toFormat('yyyy-LL-dd HH:mm ZZZZ')}
+                  </span>
+                  <select
+                    value={referenceZone}
+                    onChange={e => setReferenceZone(e.target.value as ReferenceZone)}
+                    className="bg-slate-900/50 border border-slate-700/50 rounded px-1 py-0.5 text-slate-300"
+                    title="Time zone for times on the slider and in the event lists"
+                  >
+                    {REFERENCE_ZONES.map(zone => (
+                      <option key={zone.key} value={zone.key}>{zone.label}</option>
+                    ))}
+                  </select>
                 </div>
                 
                 {/* Enhanced time slider information */}
                 {currentSunPoint && (
                   <div className="mt-3 p-3 bg-slate-900/50 rounded-lg border border-slate-700/50">
                     <div className="text-xs text-slate-300 space-y-1">
+                      {isMultiLeg && (
+                        <div className="flex justify-between">
+                          <span className="font-medium">Leg:</span>
+                          <span>
+                            {currentSunPoint.phase === 'ground'
+                              ? `On ground at ${report.layovers[currentSunPoint.leg].airport.iata}`
+                              : `${currentSunPoint.leg + 1} · ${report.legs[currentSunPoint.leg].source.iata} → ${report.legs[currentSunPoint.leg].destination.iata}`}
+                          </span>
+                        </div>
+                      )}
                       <div className="flex justify-between">
                         <span className="font-medium">Position:</span>
                         <span>{currentSunPoint.lat.toFixed(2)}°N, {currentSunPoint.lon.toFixed(2)}°E</span>
@@ -860,10 +1125,28 @@ function App() {
                           {currentSunPoint.altitude.toFixed(1)}°
                         </span>
                       </div>
+                      <div className="flex justify-between">
+                        <span className="font-medium">Above Cabin Horizon:</span>
+                        <span className={currentSunPoint.horizonAltitude >= 0 ? 'text-amber-400' : 'text-slate-400'}>
+                          {currentSunPoint.horizonAltitude.toFixed(1)}°
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="font-medium">Aircraft Altitude:</span>
+                        <span>{Math.round(currentSunPoint.aircraftAltitude * FEET_PER_METER).toLocaleString()} ft</span>
+                      </div>
                       <div className="flex justify-between">
                         <span className="font-medium">Sun Azimuth:</span>
                         <span>{currentSunPoint.azimuth.toFixed(1)}°</span>
                       </div>
+                      {currentSunPoint.relativeAngle !== undefined && currentSunPoint.side && (
+                        <div className="flex justify-between">
+                          <span className="font-medium">Sun From Nose:</span>
+                          <span className={currentSunPoint.side === 'Left' ? 'text-blue-400' : currentSunPoint.side === 'Right' ? 'text-green-400' : 'text-amber-400'}>
+                            {currentSunPoint.relativeAngle.toFixed(0)}° · {currentSunPoint.side}
+                          </span>
+                        </div>
+                      )}
                       <div className="flex justify-between">
                         <span className="font-medium">Flight Progress:</span>
                         <span>{((mapTime.getTime() - minTime) / (maxTime - minTime) * 100).toFixed(1)}%</span>
@@ -882,69 +1165,140 @@ function App() {
         
         {/* Dedicated Sunset/Sunrise Information Section */}
         {(depTime && arrivalTime) && (
-          <section className="w-full lg:w-1/5 bg-slate-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-700/50 p-6 sparkle-on-hover">
-            <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
-              <FaSun className="text-amber-400" />
-              Sunset & Sunrise Info
-            </h2>
-            
-            {sunEvents.length > 0 ? (
-              <div className="space-y-4">
-                <div className="text-sm text-slate-300 mb-3">
-                  <p className="font-semibold text-white mb-1">Sun Events During Your Flight:</p>
-                  <p className="text-slate-400">The following sunrise and sunset events will occur along your flight path:</p>
-                </div>
-                
-                <div className="space-y-3">
-                  {sunEvents.map((ev, i) => (
-                    <div key={i} className="p-3 rounded-lg bg-slate-900/50 border border-slate-700/50">
-                      <div className="flex items-center gap-2 mb-1">
-                        <span className={ev.type === 'sunrise' ? 'text-amber-400' : 'text-sky-400'}>
-                          {ev.type === 'sunrise' ? '🌅' : '🌇'}
-                        </span>
-                        <span className={`font-semibold ${ev.type === 'sunrise' ? 'text-amber-400' : 'text-sky-400'}`}>
-                          {ev.type.charAt(0).toUpperCase() + ev.type.slice(1)}
-                        </span>
+          <div className="w-full lg:w-1/5 flex flex-col gap-8">
+            <section className="w-full bg-slate-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-700/50 p-6 sparkle-on-hover">
+              <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+                <FaSun className="text-amber-400" />
+                Sunset & Sunrise Info
+              </h2>
+
+              <div className="flex flex-wrap gap-1 mb-4">
+                {EVENT_FILTERS.map(f => {
+                  const active = eventFilters.includes(f.key);
+                  return (
+                    <button
+                      key={f.key}
+                      type="button"
+                      onClick={() => toggleEventFilter(f.key)}
+                      className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${active ? 'bg-slate-700 text-white border-slate-500' : 'bg-slate-900/50 text-slate-500 border-slate-700/50'}`}
+                    >
+                      <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ background: f.color, opacity: active ? 1 : 0.4 }} />
+                      {f.label}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {sunEvents.length > 0 || lightWindows.length > 0 ? (
+                <div className="space-y-4">
+                  <div className="text-sm text-slate-300 mb-3">
+                    <p className="font-semibold text-white mb-1">Sun Events During Your Flight:</p>
+                    <p className="text-slate-400">The following sunrise, sunset and twilight events will occur along your flight path:</p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      Times in {referenceZoneLabel}
+                    </p>
+                  </div>
+                  
+                  <div className="space-y-3">
+                    {sunEvents.map((ev, i) => (
+                      <div key={i} className="p-3 rounded-lg bg-slate-900/50 border border-slate-700/50">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className={ev.type === 'sunrise' ? 'text-amber-400' : 'text-sky-400'}>
+                            {ev.type === 'sunrise' ? '🌅' : '🌇'}
+                          </span>
+                          <span className={`font-semibold ${ev.type === 'sunrise' ? 'text-amber-400' : 'text-sky-400'}`}>
+                            {ev.type.charAt(0).toUpperCase() + ev.type.slice(1)}
+                          </span>
+                          {isMultiLeg && (
+                            <span className="ml-auto text-xs text-slate-500">
+                              {ev.phase === 'ground' ? `Ground · ${report.layovers[ev.leg].airport.iata}` : `Leg ${ev.leg + 1}`}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-sm text-slate-300">
+                          <div className="font-medium">
+                            {formatAt(ev.time, ev.lat, ev.lon, 'HH:mm, dd LLL yyyy ZZZZ')}
+                          </div>
+                          <div className="text-slate-400 text-xs mt-1 space-y-1">
+                            <div>Location: {ev.lat.toFixed(2)}°N, {ev.lon.toFixed(2)}°E</div>
+                            <div>Sun Azimuth: {ev.azimuth.toFixed(1)}°</div>
+                            <div className="font-medium text-slate-300">
+                              Position: <span className={ev.position === 'Left' ? 'text-blue-400' : ev.position === 'Right' ? 'text-green-400' : 'text-amber-400'}>{ev.position ?? 'On ground'}</span>
+                            </div>
+                          </div>
+                        </div>
                       </div>
-                      <div className="text-sm text-slate-300">
-                        <div className="font-medium">
-                          {DateTime.fromJSDate(ev.time).toFormat('HH:mm, dd LLL yyyy')}
+                    ))}
+                    {lightWindows.map((w, i) => (
+                      <div key={`window-${i}`} className="p-3 rounded-lg bg-slate-900/50 border border-slate-700/50" style={{ borderLeft: `3px solid ${LIGHT_PHASES[w.phase].color}` }}>
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-semibold text-white">{LIGHT_PHASES[w.phase].label}</span>
+                          <span className="text-xs text-slate-500">{w.morning ? 'morning' : 'evening'}</span>
+                          {isMultiLeg && <span className="ml-auto text-xs text-slate-500">Leg {w.leg + 1}</span>}
                         </div>
-                        <div className="text-slate-400 text-xs mt-1 space-y-1">
-                          <div>Location: {ev.lat.toFixed(2)}°N, {ev.lon.toFixed(2)}°E</div>
-                          <div>Sun Azimuth: {ev.azimuth.toFixed(1)}°</div>
-                          <div className="font-medium text-slate-300">
-                            Position: <span className={ev.position === 'Left' ? 'text-blue-400' : ev.position === 'Right' ? 'text-green-400' : 'text-amber-400'}>{ev.position}</span>
+                        <div className="text-sm text-slate-300">
+                          <div className="font-medium">
+                            {w.openStart ? 'From departure' : formatAt(w.start, w.path[0][0], w.path[0][1], 'HH:mm')}
+                            {' – '}
+                            {w.openEnd ? 'until arrival' : formatAt(w.end, w.path[w.path.length - 1][0], w.path[w.path.length - 1][1], 'HH:mm, dd LLL yyyy ZZZZ')}
+                          </div>
+                          <div className="text-slate-400 text-xs mt-1 space-y-1">
+                            <div>{Math.round((w.end.getTime() - w.start.getTime()) / 60000)} min, sun azimuth {w.azimuth.toFixed(1)}°</div>
+                            <div className="font-medium text-slate-300">
+                              Glow: <span className={w.side === 'Left' ? 'text-blue-400' : w.side === 'Right' ? 'text-green-400' : 'text-amber-400'}>{w.side}</span>
+                            </div>
                           </div>
                         </div>
                       </div>
-                    </div>
-                  ))}
+                    ))}
+                  </div>
                 </div>
-              </div>
-            ) : (
-              <div className="text-center py-8">
-                <div className="text-6xl mb-4">🌙</div>
-                <h3 className="text-lg font-semibold text-white mb-2">No Sunrise/Sunset Events</h3>
-                <p className="text-slate-400 text-sm">
-                  During your flight from {sourceAirport?.city} to {destAirport?.city}, 
-                  there will be no sunrise or sunset events along the flight path.
-                </p>
-                <div className="mt-4 p-3 bg-slate-900/50 rounded-lg border border-slate-700/50">
-                  <div className="text-xs text-slate-400">
-                    <div className="font-medium text-slate-300 mb-1">Flight Duration:</div>
-                    <div>{flightTime} hours</div>
-                    <div className="font-medium text-slate-300 mt-2 mb-1">Departure:</div>
-                    <div>{depTime?.toFormat('HH:mm, dd LLL yyyy')}</div>
-                    <div className="font-medium text-slate-300 mt-2 mb-1">Arrival:</div>
-                    <div>{arrivalTime?.toFormat('HH:mm, dd LLL yyyy')}</div>
+              ) : (
+                <div className="text-center py-8">
+                  <div className="text-6xl mb-4">🌙</div>
+                  <h3 className="text-lg font-semibold text-white mb-2">No Sunrise/Sunset Events</h3>
+                  <p className="text-slate-400 text-sm">
+                    During your flight from {stopAirports[0]?.city} to {stopAirports[stopAirports.length - 1]?.city}, 
+                    there will be no {eventFilters.length < EVENT_FILTERS.length ? 'matching' : 'sunrise, sunset or twilight'} events along the flight path.
+                  </p>
+                  <div className="mt-4 p-3 bg-slate-900/50 rounded-lg border border-slate-700/50">
+                    <div className="text-xs text-slate-400">
+                      <div className="font-medium text-slate-300 mb-1">Flight Duration:</div>
+                      <div>{report?.legs.reduce((sum, leg) => sum + leg.durationHours, 0)} hours</div>
+                      <div className="font-medium text-slate-300 mt-2 mb-1">Departure:</div>
+                      <div>{depTime?.toFormat('HH:mm, dd LLL yyyy')}</div>
+                      <div className="font-medium text-slate-300 mt-2 mb-1">Arrival:</div>
+                      <div>{arrivalTime?.toFormat('HH:mm, dd LLL yyyy')}</div>
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
+            </section>
+            {report && (
+              <TimezoneTimeline
+                crossings={timezoneCrossings}
+                formatTime={c => formatAt(c.time, c.lat, c.lon, 'HH:mm, dd LLL ZZZZ')}
+                isMultiLeg={isMultiLeg}
+                onSelect={time => {
+                  setPlaying(false);
+                  setMapTime(time);
+                }}
+              />
             )}
-          </section>
+            {report && <CabinView sample={currentSunPoint} moon={currentMoon} defaultSide={report.legs[0].seat?.side} />}
+            {report && <MoonPanel legs={report.legs} current={currentMoon} />}
+          </div>
         )}
       </main>
+      <DepartureOptimizer
+        source={selectedSource ?? null}
+        destination={selectedDest ?? null}
+        durationHours={Number(effectiveFlightTime)}
+        aircraft={findAircraft(aircraftCode)}
+        initialDate={departure.slice(0, 10)}
+        onSelect={loadDeparture}
+      />
+      <BatchPanel onSelect={loadBatchRow} />
       <footer className="py-4 text-center text-slate-500 text-xs bg-slate-900/70 backdrop-blur-lg border-t border-slate-700/50">
         Made with Cursor by <a href="https://github.com/Ayush-IITGoa" target="_blank" rel="noopener noreferrer" className="text-amber-400 hover:text-amber-300 transition-colors">Ayush Raj</a> for Trilogy
       </footer>
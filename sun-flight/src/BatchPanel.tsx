@@ -0,0 +1,121 @@
+import { useState } from 'react'
+import { FaFileCsv, FaDownload } from 'react-icons/fa'
+import { analyzeFlightCsv, batchResultsToCsv, type BatchResult, type BatchRow } from './batch'
+import { downloadFile } from './download'
+
+const EXAMPLE_CSV = `source,destination,departure,duration
+DEL,BLR,2025-06-22T05:00,2.5
+SIN,LHR,2025-06-22T23:00,13.5`;
+
+interface BatchPanelProps {
+  onSelect: (row: BatchRow) => void;
+}
+
+export default function BatchPanel({ onSelect }: BatchPanelProps) {
+  const [csvText, setCsvText] = useState('')
+  const [results, setResults] = useState<BatchResult[]>([])
+  const [fileError, setFileError] = useState<string | null>(null)
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      setFileError(null);
+      setCsvText(text);
+      setResults(analyzeFlightCsv(text));
+    }).catch(err => {
+      setFileError(`${file.name}: ${(err as Error).message}`);
+    });
+    e.target.value = '';
+  };
+
+  const failed = results.filter(r => r.error).length;
+
+  return (
+    <section className="container mx-auto px-4 pb-8">
+      <div className="bg-slate-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-700/50 p-6 flex flex-col gap-4">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <FaFileCsv className="text-amber-400" />
+          Batch Import
+        </h2>
+        <p className="text-sm text-slate-400">
+          One flight per line: source IATA, destination IATA, local departure time and duration in hours.
+        </p>
+        <textarea
+          className="w-full h-32 rounded-lg px-3 py-2 bg-slate-900/70 text-white font-mono text-xs placeholder:text-slate-500 border border-transparent focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+          placeholder={EXAMPLE_CSV}
+          value={csvText}
+          onChange={e => setCsvText(e.target.value)}
+        />
+        <div className="flex flex-wrap gap-3">
+          <button
+            type="button"
+            onClick={() => { setFileError(null); setResults(analyzeFlightCsv(csvText)); }}
+            disabled={!csvText.trim()}
+            className="py-2 px-4 rounded-lg bg-gradient-to-r from-amber-500 to-orange-600 font-bold text-white shadow-lg disabled:opacity-50"
+          >
+            Analyze batch
+          </button>
+          <label className="py-2 px-4 rounded-lg bg-slate-700/50 hover:bg-slate-600/50 text-slate-300 hover:text-amber-400 transition-all duration-200 border border-slate-600/50 hover:border-amber-500/50 cursor-pointer">
+            Load CSV file
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+          </label>
+          {results.length > 0 && (
+            <button
+              type="button"
+              onClick={() => downloadFile('helioroute-batch.csv', batchResultsToCsv(results), 'text/csv')}
+              className="py-2 px-4 rounded-lg bg-slate-700/50 hover:bg-slate-600/50 text-slate-300 hover:text-amber-400 transition-all duration-200 border border-slate-600/50 hover:border-amber-500/50 flex items-center gap-2"
+            >
+              <FaDownload className="w-4 h-4" />
+              Export CSV
+            </button>
+          )}
+        </div>
+        {fileError && <div className="text-sm text-red-400">{fileError}</div>}
+        {results.length > 0 && (
+          <div className="overflow-x-auto">
+            <div className="text-xs text-slate-400 mb-2">
+              {results.length - failed} of {results.length} flights analyzed{failed > 0 && `, ${failed} with errors`}. Click a row to load it into the form.
+            </div>
+            <table className="w-full text-sm text-left text-slate-300">
+              <thead className="text-xs uppercase text-slate-400 border-b border-slate-700/50">
+                <tr>
+                  <th className="py-2 pr-4">Line</th>
+                  <th className="py-2 pr-4">Route</th>
+                  <th className="py-2 pr-4">Departure</th>
+                  <th className="py-2 pr-4">Hours</th>
+                  <th className="py-2 pr-4">Helio Side</th>
+                  <th className="py-2 pr-4">Sun Visible</th>
+                  <th className="py-2 pr-4">Events</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(({ row, report, error }) => (
+                  <tr
+                    key={row.line}
+                    onClick={() => report && onSelect(row)}
+                    className={`border-b border-slate-700/30 ${report ? 'cursor-pointer hover:bg-amber-500/10' : ''}`}
+                  >
+                    <td className="py-2 pr-4 text-slate-500">{row.line}</td>
+                    <td className="py-2 pr-4 font-semibold">{row.source.toUpperCase()} → {row.destination.toUpperCase()}</td>
+                    <td className="py-2 pr-4">{row.departure}</td>
+                    <td className="py-2 pr-4">{row.duration}</td>
+                    {report ? (
+                      <>
+                        <td className="py-2 pr-4 font-bold text-amber-400">{report.recommendation}</td>
+                        <td className="py-2 pr-4">{report.breakdown.visible}%</td>
+                        <td className="py-2 pr-4">{report.events.length}</td>
+                      </>
+                    ) : (
+                      <td colSpan={3} className="py-2 pr-4 text-red-400">{error}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </section>
+  )
+}
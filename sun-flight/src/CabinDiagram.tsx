@@ -0,0 +1,100 @@
+import type { Aircraft } from './aircraft'
+
+interface CabinDiagramProps {
+  aircraft: Aircraft;
+  sunnySide: 'Left' | 'Right' | null;
+  recommendedSide: 'Left' | 'Right';
+}
+
+const CELL = 8; // px per seat in the SVG's own units
+const WING_SPAN = 22; // how far the wing sticks out beyond the fuselage
+const NOSE = 28;
+
+// Top-down cabin with the nose pointing right, so the aircraft's left side is
+// at the top. Window seats are tinted by sun exposure and the recommended
+// window column is outlined.
+export default function CabinDiagram({ aircraft, sunnySide, recommendedSide }: CabinDiagramProps) {
+  const [firstRow, lastRow] = aircraft.rows;
+  const [wingStart, wingEnd] = aircraft.wingRows;
+  const rowCount = lastRow - firstRow + 1;
+  const letters = aircraft.seatBlocks.join('');
+
+  // Vertical offset of each seat letter, leaving an aisle between blocks
+  const seatY: number[] = [];
+  let y = 0;
+  aircraft.seatBlocks.forEach((block, b) => {
+    if (b > 0) y += CELL;
+    for (let i = 0; i < block.length; i++) {
+      seatY.push(y);
+      y += CELL;
+    }
+  });
+
+  const cabinTop = WING_SPAN + 4;
+  const cabinLength = rowCount * CELL;
+  const cabinWidth = y;
+  const width = cabinLength + NOSE + 16;
+  const height = cabinWidth + 2 * cabinTop;
+  const rowX = (row: number) => 8 + (row - firstRow) * CELL;
+
+  const seatFill = (index: number) => {
+    const side = index === 0 ? 'Left' : index === letters.length - 1 ? 'Right' : null;
+    if (!side || !sunnySide) return '#475569';
+    return side === sunnySide ? '#f59e0b' : '#38bdf8';
+  };
+  const recommendedIndex = recommendedSide === 'Left' ? 0 : letters.length - 1;
+  const wingX1 = rowX(wingStart);
+  const wingX2 = rowX(wingEnd + 1);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label={`${aircraft.name} cabin diagram`}>
+        {/* Wings */}
+        <polygon points={`${wingX1},${cabinTop} ${wingX2},${cabinTop} ${wingX2 - 6},${cabinTop - WING_SPAN} ${wingX1 + 10},${cabinTop - WING_SPAN}`} fill="#334155" />
+        <polygon points={`${wingX1},${cabinTop + cabinWidth} ${wingX2},${cabinTop + cabinWidth} ${wingX2 - 6},${cabinTop + cabinWidth + WING_SPAN} ${wingX1 + 10},${cabinTop + cabinWidth + WING_SPAN}`} fill="#334155" />
+        {/* Fuselage */}
+        <path
+          d={`M4,${cabinTop - 2} H${8 + cabinLength} Q${8 + cabinLength + NOSE},${cabinTop + cabinWidth / 2} ${8 + cabinLength},${cabinTop + cabinWidth + 2} H4 Z`}
+          fill="#1e293b"
+          stroke="#64748b"
+          strokeWidth={1}
+        />
+        {/* Wing rows */}
+        <rect x={wingX1} y={cabinTop - 2} width={wingX2 - wingX1} height={cabinWidth + 4} fill="#64748b" opacity={0.25} />
+        {Array.from({ length: rowCount }, (_, r) => (
+          letters.split('').map((letter, i) => (
+            <rect
+              key={`${r}-${letter}`}
+              x={rowX(firstRow + r) + 1}
+              y={cabinTop + seatY[i] + 1}
+              width={CELL - 2}
+              height={CELL - 2}
+              rx={1.5}
+              fill={seatFill(i)}
+            />
+          ))
+        ))}
+        {/* Recommended window column */}
+        <rect
+          x={rowX(firstRow)}
+          y={cabinTop + seatY[recommendedIndex]}
+          width={cabinLength}
+          height={CELL}
+          fill="none"
+          stroke="#ffffff"
+          strokeWidth={1}
+          rx={2}
+        />
+        <text x={2} y={cabinTop - 6} fontSize={7} fill="#94a3b8">{letters[0]} · left</text>
+        <text x={2} y={cabinTop + cabinWidth + 12} fontSize={7} fill="#94a3b8">{letters[letters.length - 1]} · right</text>
+        <text x={rowX(firstRow)} y={height - 2} fontSize={7} fill="#94a3b8">row {firstRow}</text>
+        <text x={rowX(lastRow)} y={height - 2} fontSize={7} fill="#94a3b8" textAnchor="end">row {lastRow}</text>
+      </svg>
+      <div className="flex flex-wrap gap-3 mt-2 text-xs text-slate-400">
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-amber-500 inline-block" /> Sunny side</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-sky-400 inline-block" /> Shaded side</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-slate-500/50 inline-block" /> Over the wing</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import type { JourneySample } from './itinerary'
+import type { MoonSample } from './moonAnalysis'
+
+interface CabinViewProps {
+  sample: JourneySample | null; // sun and aircraft at the map time
+  moon: MoonSample | null;
+  defaultSide?: 'Left' | 'Right';
+}
+
+const WIDTH = 180;
+const HEIGHT = 240;
+const PX_PER_DEG = 2;
+const HORIZON_Y = HEIGHT * 0.6;
+const HALF_FOV = WIDTH / PX_PER_DEG / 2;
+// Direction each window faces, relative to the nose
+const WINDOW_ANGLE = { Left: 270, Right: 90 };
+const SUN_RADIUS = 10; // drawn larger than the real half-degree disc
+const MOON_RADIUS = 7;
+
+// Signed shortest turn from a to b in degrees
+const angleDelta = (a: number, b: number) => ((b - a + 540) % 360) - 180;
+
+// Sky colours [zenith, horizon] for the sun's true altitude, from full day
+// through golden hour and the civil, nautical and astronomical twilights
+function skyColors(altitude: number): [string, string] {
+  if (altitude >= 6) return ['#2563eb', '#bae6fd'];
+  if (altitude >= 0) return ['#1d4ed8', '#fdba74'];
+  if (altitude >= -6) return ['#1e3a8a', '#f97316'];
+  if (altitude >= -12) return ['#172554', '#1e40af'];
+  if (altitude >= -18) return ['#0b1120', '#172554'];
+  return ['#020617', '#0b1120'];
+}
+
+// Simple view out of one cabin window: the visible horizon, sky shaded by
+// the sun's altitude, and the sun and moon placed by their direction relative
+// to the window and height above the horizon. Azimuth grows to the right
+// whichever way the window faces, so the nose is to the right looking out the
+// left side and to the left looking out the right.
+export default function CabinView({ sample, moon, defaultSide = 'Left' }: CabinViewProps) {
+  const [side, setSide] = useState<'Left' | 'Right'>(defaultSide);
+  const heading = sample?.heading;
+  const windowAngle = WINDOW_ANGLE[side];
+
+  const place = (relativeAngle: number, horizonAltitude: number) => {
+    const offset = angleDelta(windowAngle, relativeAngle);
+    return {
+      offset,
+      x: WIDTH / 2 + offset * PX_PER_DEG,
+      y: HORIZON_Y - horizonAltitude * PX_PER_DEG,
+      inView: Math.abs(offset) <= HALF_FOV && horizonAltitude > -HORIZON_Y / PX_PER_DEG,
+    };
+  };
+
+  const sun = sample && sample.relativeAngle !== undefined ? place(sample.relativeAngle, sample.horizonAltitude) : null;
+  const moonPos = moon && moon.relativeAngle !== undefined && moon.horizonAltitude >= 0
+    ? place(moon.relativeAngle, moon.horizonAltitude)
+    : null;
+  const [zenith, horizon] = skyColors(sample?.altitude ?? -90);
+  const daylight = sample ? Math.min(1, Math.max(0, (sample.altitude + 6) / 12)) : 0;
+
+  let caption = '';
+  if (sample && sun) {
+    const where = Math.abs(sun.offset) <= HALF_FOV
+      ? 'in view'
+      : `${Math.abs(sun.offset).toFixed(0)}° ${sun.offset > 0 === (side === 'Left') ? 'towards the nose' : 'towards the tail'}`;
+    caption = sample.horizonAltitude >= 0
+      ? `Sun ${sample.horizonAltitude.toFixed(0)}° above the horizon, ${where}`
+      : `Sun ${(-sample.horizonAltitude).toFixed(0)}° below the horizon`;
+  }
+
+  return (
+    <section className="w-full bg-slate-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-700/50 p-6 sparkle-on-hover">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-white">Window View</h2>
+        <div className="flex rounded-lg overflow-hidden border border-slate-700/50 text-xs">
+          {(['Left', 'Right'] as const).map(s => (
+            <button
+              key={s}
+              type="button"
+              onClick={() => setSide(s)}
+              className={`px-2 py-1 transition-colors ${side === s ? (s === 'Left' ? 'bg-blue-500/30 text-blue-400' : 'bg-green-500/30 text-green-400') : 'bg-slate-900/50 text-slate-400'}`}
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {sample && heading !== undefined ? (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full max-w-[220px] mx-auto block" role="img" aria-label={`View out of the ${side.toLowerCase()} window`}>
+            <defs>
+              <clipPath id="cabin-window">
+                <rect x="4" y="4" width={WIDTH - 8} height={HEIGHT - 8} rx="60" />
+              </clipPath>
+              <linearGradient id="cabin-sky" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="0" stopColor={zenith} />
+                <stop offset="1" stopColor={horizon} />
+              </linearGradient>
+              <linearGradient id="cabin-ground" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="0" stopColor="#94a3b8" stopOpacity={0.2 + 0.6 * daylight} />
+                <stop offset="1" stopColor="#1e293b" stopOpacity={0.4 + 0.6 * daylight} />
+              </linearGradient>
+              <radialGradient id="cabin-glow">
+                <stop offset="0" stopColor="#fde68a" stopOpacity="0.9" />
+                <stop offset="1" stopColor="#fde68a" stopOpacity="0" />
+              </radialGradient>
+            </defs>
+            <g clipPath="url(#cabin-window)">
+              <rect width={WIDTH} height={HORIZON_Y} fill="url(#cabin-sky)" />
+              <rect y={HORIZON_Y} width={WIDTH} height={HEIGHT - HORIZON_Y} fill="#020617" />
+              <rect y={HORIZON_Y} width={WIDTH} height={HEIGHT - HORIZON_Y} fill="url(#cabin-ground)" />
+              {sun && sun.inView && sample.horizonAltitude > -6 && (
+                <circle cx={sun.x} cy={Math.min(sun.y, HORIZON_Y)} r={SUN_RADIUS * 4} fill="url(#cabin-glow)" />
+              )}
+              {moonPos && moonPos.inView && (
+                <circle cx={moonPos.x} cy={moonPos.y} r={MOON_RADIUS} fill="#e2e8f0" fillOpacity={0.3 + 0.7 * (moon?.illumination ?? 0)} />
+              )}
+              {sun && sun.inView && sample.horizonAltitude >= 0 && (
+                <circle cx={sun.x} cy={sun.y} r={SUN_RADIUS} fill="#fef3c7" />
+              )}
+              <line x1="0" x2={WIDTH} y1={HORIZON_Y} y2={HORIZON_Y} stroke="#cbd5e1" strokeOpacity="0.4" />
+            </g>
+            <rect x="4" y="4" width={WIDTH - 8} height={HEIGHT - 8} rx="60" fill="none" stroke="#cbd5e1" strokeWidth="8" />
+            <text x={side === 'Left' ? WIDTH - 18 : 18} y={HEIGHT - 18} fontSize="10" fill="#e2e8f0" textAnchor={side === 'Left' ? 'end' : 'start'}>
+              {side === 'Left' ? 'nose →' : '← nose'}
+            </text>
+          </svg>
+          <div className="mt-3 text-xs text-slate-400 text-center">{caption}</div>
+        </>
+      ) : (
+        <div className="text-sm text-slate-400 text-center py-6">
+          {sample ? 'On the ground: no heading to look out from.' : 'Analyse a flight to see the view from the window.'}
+        </div>
+      )}
+    </section>
+  )
+}
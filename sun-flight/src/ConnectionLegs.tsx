@@ -0,0 +1,140 @@
+import { FaPlus, FaTrash } from 'react-icons/fa'
+import AirportSelect from './AirportSelect'
+import AircraftSelect from './AircraftSelect'
+import { findAirport, type Airport } from './airports'
+import { resolveFlightTime } from './flightTime'
+
+// Form state for one onward leg. The leg starts where the previous one landed
+// and leaves either after `layover` hours or at an explicit local `departure`.
+export interface ConnectionForm {
+  destIATA: string;
+  timing: 'layover' | 'departure';
+  departure: string;
+  layover: string;
+  flightTime: string;
+  autoDuration: boolean;
+  aircraft: string; // aircraft code, empty when unknown
+}
+
+const NEW_CONNECTION: ConnectionForm = { destIATA: '', timing: 'layover', departure: '', layover: '2', flightTime: '', autoDuration: true, aircraft: '' };
+
+interface ConnectionLegsProps {
+  firstOrigin?: Airport; // where the first connection departs from, possibly a custom place
+  connections: ConnectionForm[];
+  onChange: (connections: ConnectionForm[]) => void;
+}
+
+const inputClass = "w-full rounded-lg px-3 py-2 bg-slate-900/70 text-white placeholder:text-slate-500 border border-transparent focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500";
+
+export default function ConnectionLegs({ firstOrigin, connections, onChange }: ConnectionLegsProps) {
+  const update = (index: number, changes: Partial<ConnectionForm>) => {
+    onChange(connections.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {connections.map((conn, index) => {
+        const origin = index === 0 ? firstOrigin : findAirport(connections[index - 1].destIATA);
+        const flightTime = resolveFlightTime(conn.autoDuration, conn.flightTime, origin, findAirport(conn.destIATA));
+        const originLabel = origin?.custom ? origin.city : origin?.iata ?? (index > 0 ? connections[index - 1].destIATA : '');
+        const useDeparture = conn.timing === 'departure';
+        return (
+          <div key={index} className="p-3 rounded-lg bg-slate-900/40 border border-slate-700/50 flex flex-col gap-3">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-semibold text-slate-300">Leg {index + 2} · from {originLabel || '…'}</span>
+              <button
+                type="button"
+                onClick={() => onChange(connections.filter((_, i) => i !== index))}
+                className="text-slate-400 hover:text-red-500 transition"
+                title="Remove leg"
+              >
+                <FaTrash className="w-3 h-3" />
+              </button>
+            </div>
+            <AirportSelect
+              id={`connection-${index}`}
+              value={conn.destIATA}
+              onChange={destIATA => update(index, { destIATA })}
+              placeholder="Select next destination..."
+            />
+            <div className="flex gap-4">
+              <div className="flex-1">
+                <div className="flex justify-between items-center mb-1">
+                  <label className="block text-xs font-semibold text-slate-300" htmlFor={`connection-${index}-time`}>
+                    {useDeparture ? 'Departure' : 'Layover (hrs)'}
+                  </label>
+                  <button
+                    type="button"
+                    className="text-xs text-slate-400 hover:text-amber-400"
+                    onClick={() => update(index, { timing: useDeparture ? 'layover' : 'departure' })}
+                  >
+                    {useDeparture ? 'Use layover' : 'Set time'}
+                  </button>
+                </div>
+                {useDeparture ? (
+                  <input
+                    id={`connection-${index}-time`}
+                    type="datetime-local"
+                    className={inputClass}
+                    value={conn.departure}
+                    onChange={e => update(index, { departure: e.target.value })}
+                    required
+                  />
+                ) : (
+                  <input
+                    id={`connection-${index}-time`}
+                    type="number"
+                    step="0.25"
+                    min="0"
+                    className={inputClass}
+                    value={conn.layover}
+                    onChange={e => update(index, { layover: e.target.value })}
+                    required
+                  />
+                )}
+              </div>
+              <div className="flex-1">
+                <div className="flex justify-between items-center mb-1">
+                  <label className="block text-xs font-semibold text-slate-300" htmlFor={`connection-${index}-duration`}>Flight Time (hrs)</label>
+                  <label className="flex items-center gap-1 text-xs text-slate-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="accent-amber-500"
+                      checked={conn.autoDuration}
+                      onChange={e => update(index, { autoDuration: e.target.checked, flightTime })}
+                    />
+                    Auto
+                  </label>
+                </div>
+                <input
+                  id={`connection-${index}-duration`}
+                  type="number"
+                  step="0.1"
+                  min="0.1"
+                  className={inputClass}
+                  value={flightTime}
+                  onChange={e => update(index, { flightTime: e.target.value, autoDuration: false })}
+                  required
+                />
+              </div>
+            </div>
+            <AircraftSelect
+              id={`connection-${index}-aircraft`}
+              value={conn.aircraft}
+              onChange={aircraft => update(index, { aircraft })}
+              className={inputClass}
+            />
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() => onChange([...connections, { ...NEW_CONNECTION }])}
+        className="py-2 px-4 rounded-lg bg-slate-700/50 hover:bg-slate-600/50 text-slate-300 hover:text-amber-400 transition-all duration-200 border border-slate-600/50 hover:border-amber-500/50 flex items-center justify-center gap-2 text-sm"
+      >
+        <FaPlus className="w-3 h-3" />
+        Add connection
+      </button>
+    </div>
+  )
+}
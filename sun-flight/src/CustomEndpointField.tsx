@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import { FaMapMarkerAlt, FaSearch, FaTimes } from 'react-icons/fa'
+import { coordinatesToAirport, defaultGeocoder, parseCoordinates, placeToAirport, type GeocodeResult, type GeocodingProvider } from './geocode'
+import type { Airport } from './airports'
+
+interface CustomEndpointFieldProps {
+  value: Airport | null; // the custom endpoint in use, overriding the airport select
+  onChange: (airport: Airport | null) => void;
+  picking: boolean; // waiting for a click on the map
+  onPickOnMap: () => void;
+  geocoder?: GeocodingProvider;
+}
+
+// Lets an endpoint be any place: a name to geocode, "lat, lon", or a pin
+// dropped on the map. The chosen place replaces the airport until cleared.
+export default function CustomEndpointField({ value, onChange, picking, onPickOnMap, geocoder = defaultGeocoder }: CustomEndpointFieldProps) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<GeocodeResult[]>([])
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const search = async () => {
+    setError(null);
+    setResults([]);
+    const coords = parseCoordinates(query);
+    if (coords) {
+      onChange(coordinatesToAirport(coords.lat, coords.lon));
+      return;
+    }
+    setSearching(true);
+    try {
+      const found = await geocoder.search(query);
+      if (found.length === 0) setError('No place found.');
+      else if (found.length === 1) onChange(placeToAirport(found[0]));
+      else setResults(found);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  if (value) {
+    return (
+      <div className="mt-1 flex items-center gap-2 text-xs text-slate-300">
+        <FaMapMarkerAlt className="text-amber-400 shrink-0" />
+        <span className="truncate">
+          {value.name}{value.country && `, ${value.country}`} · {value.timezone}
+        </span>
+        <button type="button" onClick={() => onChange(null)} className="ml-auto text-slate-400 hover:text-amber-400" title="Use the airport instead">
+          <FaTimes />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-1">
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              if (query.trim()) search();
+            }
+          }}
+          placeholder="Or a place / lat, lon"
+          className="flex-1 min-w-0 rounded px-2 py-1 text-xs bg-slate-900/70 text-white placeholder:text-slate-500 border border-slate-700/50 focus:outline-none focus:ring-1 focus:ring-amber-500"
+        />
+        <button type="button" onClick={search} disabled={!query.trim() || searching} className="px-2 text-slate-400 hover:text-amber-400 disabled:opacity-50" title="Find place">
+          <FaSearch />
+        </button>
+        <button
+          type="button"
+          onClick={onPickOnMap}
+          className={`px-2 ${picking ? 'text-amber-400' : 'text-slate-400 hover:text-amber-400'}`}
+          title="Drop a pin on the map"
+        >
+          <FaMapMarkerAlt />
+        </button>
+      </div>
+      {picking && <div className="mt-1 text-xs text-amber-400">Click the map to place the pin.</div>}
+      {error && <div className="mt-1 text-xs text-red-400">{error}</div>}
+      {results.length > 0 && (
+        <ul className="mt-1 rounded bg-slate-900/90 border border-slate-700/50 text-xs">
+          {results.map((place, i) => (
+            <li key={i}>
+              <button
+                type="button"
+                onClick={() => { setResults([]); onChange(placeToAirport(place)); }}
+                className="w-full text-left px-2 py-1 text-slate-300 hover:bg-amber-500/20"
+              >
+                {place.name}{place.country && `, ${place.country}`}
+                <span className="text-slate-500"> · {place.lat.toFixed(2)}, {place.lon.toFixed(2)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
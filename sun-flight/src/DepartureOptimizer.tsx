@@ -0,0 +1,166 @@
+import { useRef, useState } from 'react'
+import { FaCalendarAlt } from 'react-icons/fa'
+import { bestDepartures, sweepDepartures, sweepTimesOfDay, type SweepMetric, type SweepRow } from './departureSweep'
+import type { Airport } from './airports'
+import type { Aircraft } from './aircraft'
+
+interface DepartureOptimizerProps {
+  source: Airport | null;
+  destination: Airport | null;
+  durationHours: number;
+  aircraft?: Aircraft;
+  initialDate: string; // 'yyyy-LL-dd'
+  onSelect: (departure: string) => void;
+}
+
+const METRICS: { key: SweepMetric; label: string }[] = [
+  { key: 'share', label: 'Sun in view from the window' },
+  { key: 'sunset', label: 'Sunset from the window' },
+  { key: 'sunrise', label: 'Sunrise from the window' },
+];
+const STEP_OPTIONS = [30, 60];
+
+// Transparent for no view, up to solid amber for the sun in view all flight
+const cellColor = (value: number | null) =>
+  value === null ? '#7f1d1d' : `rgba(251, 191, 36, ${(0.08 + 0.92 * value / 100).toFixed(2)})`;
+
+export default function DepartureOptimizer({ source, destination, durationHours, aircraft, initialDate, onSelect }: DepartureOptimizerProps) {
+  const [startDate, setStartDate] = useState(initialDate)
+  const [days, setDays] = useState(60)
+  const [stepMinutes, setStepMinutes] = useState(30)
+  const [side, setSide] = useState<'Left' | 'Right'>('Left')
+  const [metric, setMetric] = useState<SweepMetric>('share')
+  const [rows, setRows] = useState<SweepRow[]>([])
+  const [shownMetric, setShownMetric] = useState<SweepMetric>('share') // metric of the rows on show
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const abort = useRef<AbortController | null>(null)
+
+  // Compared by position, as custom endpoints can share a code (PIN*)
+  const canRun = !!source && !!destination && (source.lat !== destination.lat || source.lon !== destination.lon) && durationHours > 0;
+
+  const run = async () => {
+    if (!source || !destination) return;
+    abort.current?.abort();
+    const controller = new AbortController();
+    abort.current = controller;
+    setRows([]);
+    setShownMetric(metric);
+    setError(null);
+    setRunning(true);
+    try {
+      await sweepDepartures(
+        { flight: { source, destination, durationHours, aircraft }, startDate, days, stepMinutes, side, metric },
+        setRows,
+        controller.signal,
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      if (abort.current === controller) setRunning(false);
+    }
+  };
+
+  const times = rows.length > 0 ? rows[0].cells.map(cell => cell.departure.slice(11)) : sweepTimesOfDay(stepMinutes);
+  const best = bestDepartures(rows, 5);
+
+  return (
+    <section className="container mx-auto px-4 pb-8">
+      <div className="bg-slate-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-700/50 p-6 flex flex-col gap-4">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <FaCalendarAlt className="text-amber-400" />
+          Departure Optimizer
+        </h2>
+        <p className="text-sm text-slate-400">
+          Analyses {source && destination ? `${source.iata} → ${destination.iata}` : 'the selected route'} at every departure time over a range of days,
+          keeping the flight time of {durationHours > 0 ? `${durationHours} h` : 'the form'}. Click a cell to load that departure into the form.
+        </p>
+        <div className="flex flex-wrap gap-3 items-end text-sm">
+          <label className="flex flex-col gap-1 text-slate-300">
+            From
+            <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="rounded-lg px-2 py-1 bg-slate-900/70 text-white border border-slate-700/50" />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-300">
+            Days
+            <input type="number" min={1} max={366} value={days} onChange={e => setDays(Math.max(1, Math.min(366, Number(e.target.value) || 1)))} className="w-20 rounded-lg px-2 py-1 bg-slate-900/70 text-white border border-slate-700/50" />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-300">
+            Every
+            <select value={stepMinutes} onChange={e => setStepMinutes(Number(e.target.value))} className="rounded-lg px-2 py-1 bg-slate-900/70 text-white border border-slate-700/50">
+              {STEP_OPTIONS.map(step => <option key={step} value={step}>{step} min</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-slate-300">
+            Side
+            <select value={side} onChange={e => setSide(e.target.value as 'Left' | 'Right')} className="rounded-lg px-2 py-1 bg-slate-900/70 text-white border border-slate-700/50">
+              <option value="Left">Left</option>
+              <option value="Right">Right</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-slate-300">
+            Score
+            <select value={metric} onChange={e => setMetric(e.target.value as SweepMetric)} className="rounded-lg px-2 py-1 bg-slate-900/70 text-white border border-slate-700/50">
+              {METRICS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+            </select>
+          </label>
+          {running ? (
+            <button type="button" onClick={() => abort.current?.abort()} className="py-2 px-4 rounded-lg bg-slate-700/50 hover:bg-slate-600/50 text-slate-300 border border-slate-600/50">
+              Stop ({rows.length}/{days} days)
+            </button>
+          ) : (
+            <button type="button" onClick={run} disabled={!canRun} className="py-2 px-4 rounded-lg bg-gradient-to-r from-amber-500 to-orange-600 font-bold text-white shadow-lg disabled:opacity-50">
+              Find best departures
+            </button>
+          )}
+        </div>
+        {error && <div className="p-3 bg-red-500/80 rounded-lg text-white font-semibold">{error}</div>}
+
+        {rows.length > 0 && (
+          <>
+            {best.length > 0 && (
+              <div className="flex flex-wrap gap-2 text-xs">
+                <span className="text-slate-400 self-center">Best:</span>
+                {best.map(cell => (
+                  <button
+                    key={cell.departure}
+                    type="button"
+                    onClick={() => onSelect(cell.departure)}
+                    className="px-2 py-1 rounded-full bg-slate-900/50 border border-slate-700/50 text-slate-300 hover:text-amber-400 hover:border-amber-500/50"
+                  >
+                    {cell.departure.replace('T', ' ')}{shownMetric === 'share' && ` · ${cell.value}%`}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="overflow-x-auto">
+              <div className="grid gap-px text-[10px] text-slate-500" style={{ gridTemplateColumns: `5rem repeat(${times.length}, minmax(8px, 1fr))` }}>
+                <div />
+                {times.map(time => (
+                  <div key={time} className="text-center">{time.endsWith(':00') && Number(time.slice(0, 2)) % 3 === 0 ? time.slice(0, 2) : ''}</div>
+                ))}
+                {rows.map(row => (
+                  <div key={row.date} className="contents">
+                    <div className="pr-2 text-right whitespace-nowrap">{row.date}</div>
+                    {row.cells.map(cell => (
+                      <button
+                        key={cell.departure}
+                        type="button"
+                        onClick={() => onSelect(cell.departure)}
+                        className="h-3 rounded-sm hover:ring-1 hover:ring-white"
+                        style={{ background: cellColor(cell.value) }}
+                        title={`${cell.departure.replace('T', ' ')} · ${cell.value === null ? 'analysis failed' : shownMetric === 'share' ? `${cell.value}%` : cell.value > 0 ? 'yes' : 'no'}`}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="text-xs text-slate-500">
+              Columns are local departure times at {source?.iata}; brighter cells score higher.
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,65 @@
+import { useState } from 'react'
+import { FaFileImport, FaTimes } from 'react-icons/fa'
+
+interface FileImportFieldProps<T> {
+  label: string;
+  emptyText: string; // shown while nothing is loaded
+  accept: string;
+  value: T | null;
+  parse: (text: string) => T; // throws with a readable message on bad input
+  describe: (value: T) => string;
+  onChange: (value: T | null) => void;
+}
+
+// Loads and parses a local file into form state, showing what was loaded or
+// why it was rejected, with a button to go back to the default
+export default function FileImportField<T>({ label, emptyText, accept, value, parse, describe, onChange }: FileImportFieldProps<T>) {
+  const [fileName, setFileName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        onChange(parse(text));
+        setFileName(file.name);
+        setError(null);
+      } catch (err) {
+        setError(`${file.name}: ${(err as Error).message}`);
+      }
+    }).catch(err => {
+      setError(`${file.name}: ${(err as Error).message}`);
+    });
+  };
+
+  return (
+    <div>
+      <span className="block text-sm font-semibold mb-1 text-slate-300">{label}</span>
+      <div className="flex items-center gap-2 text-sm">
+        <label className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-900/70 text-slate-300 border border-slate-600/50 hover:border-amber-500/50 cursor-pointer transition-colors whitespace-nowrap">
+          <FaFileImport className="text-amber-400" />
+          {value ? 'Replace…' : 'Import…'}
+          <input type="file" accept={accept} className="hidden" onChange={handleFile} />
+        </label>
+        {value ? (
+          <>
+            <span className="text-slate-400 truncate">{fileName} · {describe(value)}</span>
+            <button
+              type="button"
+              onClick={() => onChange(null)}
+              className="ml-auto p-1 text-slate-400 hover:text-red-400 transition-colors"
+              title="Remove"
+            >
+              <FaTimes />
+            </button>
+          </>
+        ) : (
+          <span className="text-slate-500">{emptyText}</span>
+        )}
+      </div>
+      {error && <div className="text-xs text-red-400 mt-1">{error}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+import { DateTime } from 'luxon'
+import { FaMoon } from 'react-icons/fa'
+import type { FlightSunReport } from './flightAnalysis'
+import type { MoonSample } from './moonAnalysis'
+
+interface MoonPanelProps {
+  legs: FlightSunReport[];
+  current: MoonSample | null; // moon at the slider time, if a flight is loaded
+}
+
+const sideClass = (side?: string) =>
+  side === 'Left' ? 'text-blue-400' : side === 'Right' ? 'text-green-400' : 'text-amber-400';
+
+export default function MoonPanel({ legs, current }: MoonPanelProps) {
+  const isMultiLeg = legs.length > 1;
+  const events = legs.flatMap((leg, i) => leg.moon.events.map(ev => ({ ...ev, leg: i })));
+  const { phaseName, illumination } = legs[0].moon;
+
+  return (
+    <section className="w-full bg-slate-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-700/50 p-6 sparkle-on-hover">
+      <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+        <FaMoon className="text-slate-200" />
+        Moon
+      </h2>
+
+      <div className="p-3 rounded-lg bg-slate-900/50 border border-slate-700/50 text-sm text-slate-300 space-y-1">
+        <div className="flex justify-between">
+          <span className="font-medium">Phase:</span>
+          <span>{phaseName}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="font-medium">Illumination:</span>
+          <span>{Math.round(illumination * 100)}%</span>
+        </div>
+        {legs.map((leg, i) => (
+          <div key={i} className="flex justify-between text-xs text-slate-400">
+            <span>{isMultiLeg ? `Leg ${i + 1} in view:` : 'In view:'}</span>
+            <span>
+              {leg.moon.visible}%
+              {leg.moon.visible > 0 && ` · ${leg.moon.left}% left, ${leg.moon.right}% right`}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {current && (
+        <div className="mt-3 p-3 rounded-lg bg-slate-900/50 border border-slate-700/50 text-xs text-slate-300 space-y-1">
+          <div className="flex justify-between">
+            <span className="font-medium">Moon Altitude:</span>
+            <span className={current.horizonAltitude >= 0 ? 'text-slate-100' : 'text-slate-500'}>{current.altitude.toFixed(1)}°</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="font-medium">Moon Azimuth:</span>
+            <span>{current.azimuth.toFixed(1)}°</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="font-medium">Side:</span>
+            <span className={sideClass(current.side)}>
+              {current.horizonAltitude < 0 ? 'Below horizon' : current.side ?? 'On ground'}
+            </span>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4 space-y-3">
+        {events.length > 0 ? events.map((ev, i) => (
+          <div key={i} className="p-3 rounded-lg bg-slate-900/50 border border-slate-700/50">
+            <div className="flex items-center gap-2 mb-1">
+              <span className="font-semibold text-slate-100">
+                {ev.type === 'moonrise' ? 'Moonrise' : 'Moonset'}
+              </span>
+              {isMultiLeg && <span className="ml-auto text-xs text-slate-500">Leg {ev.leg + 1}</span>}
+            </div>
+            <div className="text-sm text-slate-300">
+              <div className="font-medium">{DateTime.fromJSDate(ev.time).toFormat('HH:mm, dd LLL yyyy')}</div>
+              <div className="text-slate-400 text-xs mt-1 space-y-1">
+                <div>Location: {ev.lat.toFixed(2)}°N, {ev.lon.toFixed(2)}°E</div>
+                <div>Moon Azimuth: {ev.azimuth.toFixed(1)}°</div>
+                <div className="font-medium text-slate-300">
+                  Position: <span className={sideClass(ev.position)}>{ev.position}</span>
+                </div>
+              </div>
+            </div>
+          </div>
+        )) : (
+          <p className="text-slate-400 text-sm">No moonrise or moonset along the flight path.</p>
+        )}
+      </div>
+    </section>
+  )
+}
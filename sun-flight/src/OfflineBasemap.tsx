@@ -0,0 +1,42 @@
+import { useEffect } from 'react'
+import { Pane, Polygon, useMap } from 'react-leaflet'
+import worldLand from './worldLand.json'
+
+interface OfflineBasemapProps {
+  darkMode: boolean;
+}
+
+// Coarse land outlines, [lat, lon] rings per landmass (the first ring the
+// coast, any others lakes)
+const LAND: [number, number][][][] = worldLand.features.map(feature =>
+  feature.geometry.coordinates.map(ring => ring.map(([lon, lat]) => [lat, lon] as [number, number]))
+);
+
+// Bundled low-zoom world map drawn beneath the tile layer: wherever tiles
+// can't load (offline, nothing cached for that area) the land still shows.
+// The sea is the map container's background.
+export default function OfflineBasemap({ darkMode }: OfflineBasemapProps) {
+  const map = useMap()
+  useEffect(() => {
+    map.getContainer().style.background = darkMode ? '#0b1120' : '#bfdbfe';
+  }, [darkMode, map])
+
+  return (
+    <Pane name="offline-basemap" style={{ zIndex: 150 }}>
+      {LAND.map((rings, i) => (
+        <Polygon
+          key={i}
+          positions={rings}
+          interactive={false}
+          pathOptions={{
+            stroke: true,
+            weight: 1,
+            color: darkMode ? '#475569' : '#94a3b8',
+            fillColor: darkMode ? '#1e293b' : '#e2e8f0',
+            fillOpacity: 1,
+          }}
+        />
+      ))}
+    </Pane>
+  )
+}
@@ -0,0 +1,125 @@
+import type { PointerEvent } from 'react'
+import { DateTime } from 'luxon'
+import type { JourneyEvent, JourneySample } from './itinerary'
+import type { SunSide } from './sunUtils'
+
+interface SunTimelineChartProps {
+  samples: JourneySample[];
+  events: JourneyEvent[];
+  time: Date;
+  onTimeChange: (time: Date) => void;
+  zoneAt: (time: Date) => string; // reference zone for labels at that moment
+}
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PAD = { left: 32, right: 8, top: 8, bottom: 20 };
+const PLOT_WIDTH = WIDTH - PAD.left - PAD.right;
+const PLOT_HEIGHT = HEIGHT - PAD.top - PAD.bottom;
+
+const SIDE_COLORS: Record<SunSide, string> = {
+  Left: '#60a5fa',
+  Right: '#4ade80',
+  Ahead: '#fbbf24',
+  Behind: '#94a3b8',
+};
+// Civil, nautical and astronomical twilight limits, as on the map
+const TWILIGHT_LINES = [-6, -12, -18];
+const TICK_COUNT = 5;
+
+// Sun altitude at time t, interpolated between the surrounding samples
+function altitudeAt(samples: JourneySample[], t: number): number {
+  const i = samples.findIndex(s => s.time.getTime() >= t);
+  if (i <= 0) return samples[Math.max(0, i)].altitude;
+  const a = samples[i - 1];
+  const b = samples[i];
+  const frac = (t - a.time.getTime()) / (b.time.getTime() - a.time.getTime());
+  return a.altitude + frac * (b.altitude - a.altitude);
+}
+
+// Sun altitude over the journey, with the background banded by which side
+// of the aircraft the sun is on. Hovering or clicking moves the map time.
+export default function SunTimelineChart({ samples, events, time, onTimeChange, zoneAt }: SunTimelineChartProps) {
+  const t0 = samples[0].time.getTime();
+  const t1 = samples[samples.length - 1].time.getTime();
+  const altitudes = samples.map(s => s.altitude);
+  const maxAlt = Math.max(10, Math.ceil(Math.max(...altitudes) / 10) * 10);
+  const minAlt = Math.min(-20, Math.floor(Math.min(...altitudes) / 10) * 10);
+  const x = (t: number) => PAD.left + ((t - t0) / Math.max(1, t1 - t0)) * PLOT_WIDTH;
+  const y = (alt: number) => PAD.top + ((maxAlt - alt) / (maxAlt - minAlt)) * PLOT_HEIGHT;
+  const line = samples.map(s => `${x(s.time.getTime()).toFixed(1)},${y(s.altitude).toFixed(1)}`).join(' ');
+  const cursor = x(Math.min(t1, Math.max(t0, time.getTime())));
+
+  const moveTo = (e: PointerEvent<SVGSVGElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    const frac = ((e.clientX - box.left) / box.width * WIDTH - PAD.left) / PLOT_WIDTH;
+    onTimeChange(new Date(t0 + Math.min(1, Math.max(0, frac)) * (t1 - t0)));
+  };
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto cursor-crosshair select-none"
+        onPointerMove={moveTo}
+        onPointerDown={moveTo}
+        role="img"
+        aria-label="Sun altitude and side over the flight"
+      >
+        {/* Side bands: strong while the sun is up, faint while it is below the horizon */}
+        {samples.slice(0, -1).map((s, i) => s.side && (
+          <rect
+            key={i}
+            x={x(s.time.getTime())}
+            y={PAD.top}
+            width={Math.max(0, x(samples[i + 1].time.getTime()) - x(s.time.getTime()))}
+            height={PLOT_HEIGHT}
+            fill={SIDE_COLORS[s.side]}
+            opacity={s.horizonAltitude >= 0 ? 0.25 : 0.08}
+          />
+        ))}
+        {TWILIGHT_LINES.filter(alt => alt >= minAlt).map(alt => (
+          <g key={alt}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(alt)} y2={y(alt)} stroke="#475569" strokeDasharray="2 4" />
+            <text x={PAD.left - 4} y={y(alt) + 3} fontSize="9" fill="#64748b" textAnchor="end">{alt}°</text>
+          </g>
+        ))}
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke="#94a3b8" />
+        <text x={PAD.left - 4} y={y(0) + 3} fontSize="9" fill="#94a3b8" textAnchor="end">0°</text>
+        <text x={PAD.left - 4} y={y(maxAlt) + 8} fontSize="9" fill="#64748b" textAnchor="end">{maxAlt}°</text>
+        <polyline points={line} fill="none" stroke="#fbbf24" strokeWidth="2" strokeLinejoin="round" />
+        {events.map((ev, i) => (
+          <g key={i}>
+            <line x1={x(ev.time.getTime())} x2={x(ev.time.getTime())} y1={PAD.top} y2={PAD.top + PLOT_HEIGHT} stroke={ev.type === 'sunrise' ? '#fbbf24' : '#38bdf8'} strokeDasharray="3 3" />
+            <circle cx={x(ev.time.getTime())} cy={y(altitudeAt(samples, ev.time.getTime()))} r="4" fill={ev.type === 'sunrise' ? '#fbbf24' : '#38bdf8'}>
+              <title>{`${ev.type === 'sunrise' ? 'Sunrise' : 'Sunset'} ${DateTime.fromJSDate(ev.time).setZone(zoneAt(ev.time)).toFormat('HH:mm')}`}</title>
+            </circle>
+          </g>
+        ))}
+        <line x1={cursor} x2={cursor} y1={PAD.top} y2={PAD.top + PLOT_HEIGHT} stroke="#f8fafc" strokeWidth="1.5" />
+        {Array.from({ length: TICK_COUNT }, (_, i) => t0 + (i / (TICK_COUNT - 1)) * (t1 - t0)).map((t, i) => (
+          <text
+            key={i}
+            x={x(t)}
+            y={HEIGHT - 6}
+            fontSize="9"
+            fill="#64748b"
+            textAnchor={i === 0 ? 'start' : i === TICK_COUNT - 1 ? 'end' : 'middle'}
+          >
+            {DateTime.fromMillis(t).setZone(zoneAt(new Date(t))).toFormat('HH:mm')}
+          </text>
+        ))}
+      </svg>
+      <div className="flex flex-wrap justify-center gap-3 mt-1 text-xs text-slate-400">
+        {(Object.keys(SIDE_COLORS) as SunSide[]).map(side => (
+          <span key={side} className="flex items-center gap-1">
+            <span className="inline-block w-2 h-2 rounded-sm" style={{ background: SIDE_COLORS[side] }} />
+            {side}
+          </span>
+        ))}
+        <span className="flex items-center gap-1"><span className="text-amber-400">●</span>Sunrise</span>
+        <span className="flex items-center gap-1"><span className="text-sky-400">●</span>Sunset</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { FaGlobeAmericas } from 'react-icons/fa'
+import { describeZone, formatClockJump, formatInZone, type TimezoneCrossing } from './timeZones'
+
+interface TimezoneTimelineProps {
+  crossings: TimezoneCrossing[];
+  formatTime: (crossing: TimezoneCrossing) => string; // in the chosen reference zone
+  isMultiLeg: boolean;
+  onSelect: (time: Date) => void;
+}
+
+// Where the local clock below the aircraft changes, and by how much
+export default function TimezoneTimeline({ crossings, formatTime, isMultiLeg, onSelect }: TimezoneTimelineProps) {
+  return (
+    <section className="w-full bg-slate-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-700/50 p-6 sparkle-on-hover">
+      <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+        <FaGlobeAmericas className="text-sky-400" />
+        Time Zones Below
+      </h2>
+
+      {crossings.length === 0 ? (
+        <p className="text-sm text-slate-400">The local time below stays the same the whole way.</p>
+      ) : (
+        <ol className="relative border-l border-slate-700/50 ml-1 space-y-3">
+          {crossings.map((c, i) => {
+            // Show the day too when the date changes, not just the hour
+            const format = c.dateLine ? 'ccc dd LLL, HH:mm' : 'HH:mm';
+            return (
+              <li key={i} className="ml-4">
+                <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${c.dateLine ? 'bg-rose-400' : 'bg-sky-400'}`} />
+                <button
+                  type="button"
+                  onClick={() => onSelect(c.time)}
+                  className="w-full text-left p-3 rounded-lg bg-slate-900/50 border border-slate-700/50 hover:border-amber-500/50 transition-colors"
+                  title="Show on the map"
+                >
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-semibold text-white">{formatTime(c)}</span>
+                    <span className={`ml-auto font-semibold ${c.jumpMinutes > 0 ? 'text-amber-400' : 'text-sky-400'}`}>
+                      {formatClockJump(c.jumpMinutes)}
+                    </span>
+                  </div>
+                  {c.dateLine && (
+                    <div className="text-xs font-semibold text-rose-400 mt-1">
+                      International date line · {c.jumpMinutes < 0 ? 'the date goes back a day' : 'the date skips a day'}
+                    </div>
+                  )}
+                  <div className="text-xs text-slate-400 mt-1 space-y-1">
+                    <div>{describeZone(c.from, c.time)} → {describeZone(c.to, c.time)}</div>
+                    <div>
+                      Local clock {formatInZone(c.time, c.from, format)} → {formatInZone(c.time, c.to, format)}
+                    </div>
+                    {isMultiLeg && <div>Leg {c.leg + 1}</div>}
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,39 @@
+import { Fragment } from 'react'
+import type { SideBreakdown } from './flightAnalysis'
+
+interface TrackComparisonProps {
+  actual: SideBreakdown;
+  predicted: SideBreakdown;
+  predictedRecommendation: string | null; // set only when it differs from the actual one
+}
+
+const ROWS: (keyof SideBreakdown)[] = ['visible', 'left', 'right', 'ahead', 'behind'];
+
+// Side percentages of a recorded track next to the great-circle prediction
+export default function TrackComparison({ actual, predicted, predictedRecommendation }: TrackComparisonProps) {
+  return (
+    <div className="mt-3 text-xs text-slate-400">
+      <div className="font-semibold text-slate-300 mb-1">Recorded track vs great-circle prediction</div>
+      <div className="grid grid-cols-4 gap-1">
+        <span />
+        <span>Actual</span>
+        <span>Predicted</span>
+        <span>Diff</span>
+        {ROWS.map(key => {
+          const diff = actual[key] - predicted[key];
+          return (
+            <Fragment key={key}>
+              <span className="capitalize">{key}</span>
+              <span>{actual[key]}%</span>
+              <span>{predicted[key]}%</span>
+              <span className={diff === 0 ? '' : 'text-amber-400'}>{diff > 0 ? '+' : ''}{diff}</span>
+            </Fragment>
+          );
+        })}
+      </div>
+      {predictedRecommendation && (
+        <div className="mt-1 text-amber-400">The great circle would have suggested: {predictedRecommendation}</div>
+      )}
+    </div>
+  )
+}
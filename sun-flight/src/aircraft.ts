@@ -0,0 +1,55 @@
+export interface Aircraft {
+  code: string; // e.g. 'A320'
+  name: string;
+  seatBlocks: string[]; // economy seat letters from left to right, split at the aisles
+  rows: [number, number]; // first and last economy row
+  wingRows: [number, number]; // rows whose window view is mostly blocked by the wing
+}
+
+export interface SeatGuidance {
+  side: 'Left' | 'Right';
+  seat: string; // window seat letter
+  rowRanges: [number, number][]; // window rows clear of the wing
+  text: string;
+}
+
+// Typical economy layouts; exact row numbers vary by airline and configuration
+export const aircraftTypes: Aircraft[] = [
+  { code: 'A220-300', name: 'Airbus A220-300', seatBlocks: ['AC', 'DEF'], rows: [1, 27], wingRows: [9, 16] },
+  { code: 'A320', name: 'Airbus A320', seatBlocks: ['ABC', 'DEF'], rows: [1, 30], wingRows: [9, 16] },
+  { code: 'A321', name: 'Airbus A321', seatBlocks: ['ABC', 'DEF'], rows: [1, 39], wingRows: [12, 21] },
+  { code: '737-800', name: 'Boeing 737-800', seatBlocks: ['ABC', 'DEF'], rows: [1, 32], wingRows: [9, 17] },
+  { code: '737 MAX 8', name: 'Boeing 737 MAX 8', seatBlocks: ['ABC', 'DEF'], rows: [1, 33], wingRows: [10, 18] },
+  { code: 'E190', name: 'Embraer E190', seatBlocks: ['AC', 'DF'], rows: [1, 25], wingRows: [8, 14] },
+  { code: 'A330-300', name: 'Airbus A330-300', seatBlocks: ['AC', 'DEFG', 'HK'], rows: [10, 45], wingRows: [18, 28] },
+  { code: '787-9', name: 'Boeing 787-9', seatBlocks: ['ABC', 'DEF', 'HJK'], rows: [20, 48], wingRows: [26, 34] },
+  { code: 'A350-900', name: 'Airbus A350-900', seatBlocks: ['ABC', 'DEF', 'GHK'], rows: [30, 60], wingRows: [34, 43] },
+  { code: '777-300ER', name: 'Boeing 777-300ER', seatBlocks: ['ABC', 'DEFG', 'HJK'], rows: [30, 60], wingRows: [33, 43] },
+  { code: 'A380', name: 'Airbus A380 (main deck)', seatBlocks: ['ABC', 'DEFG', 'HJK'], rows: [40, 80], wingRows: [48, 60] },
+];
+
+export function findAircraft(code: string): Aircraft | undefined {
+  return aircraftTypes.find(a => a.code === code);
+}
+
+// Window seat letters on each side of the cabin
+export function windowSeats(aircraft?: Aircraft): { left: string; right: string } {
+  if (!aircraft) return { left: 'A', right: 'F' };
+  const lastBlock = aircraft.seatBlocks[aircraft.seatBlocks.length - 1];
+  return { left: aircraft.seatBlocks[0][0], right: lastBlock[lastBlock.length - 1] };
+}
+
+// Turns a recommended side into a concrete window seat, with the row ranges
+// in front of and behind the wing when the aircraft type is known
+export function seatGuidance(side: 'Left' | 'Right', aircraft?: Aircraft): SeatGuidance {
+  const seats = windowSeats(aircraft);
+  const seat = side === 'Left' ? seats.left : seats.right;
+  if (!aircraft) {
+    return { side, seat, rowRanges: [], text: `Window seat on the ${side.toLowerCase()} (usually seat ${seat})` };
+  }
+  const [first, last] = aircraft.rows;
+  const [wingStart, wingEnd] = aircraft.wingRows;
+  const rowRanges = ([[first, wingStart - 1], [wingEnd + 1, last]] as [number, number][]).filter(([a, b]) => a <= b);
+  const rowsText = rowRanges.map(([a, b]) => (a === b ? `${a}` : `${a}–${b}`)).join(' or ');
+  return { side, seat, rowRanges, text: `Seat ${seat}, rows ${rowsText} avoid the wing` };
+}
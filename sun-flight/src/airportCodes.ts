@@ -0,0 +1,81 @@
+// Extra airport codes for search, keyed by IATA code. airports.json carries
+// no ICAO codes, so these cover the busier airports only.
+
+// Airports in the contiguous US whose ICAO code is 'K' + IATA
+const US_K_PREFIXED = [
+  'ABQ', 'ATL', 'AUS', 'BDL', 'BNA', 'BOI', 'BOS', 'BUF', 'BUR', 'BWI', 'CLE', 'CLT', 'CMH', 'CVG',
+  'DAL', 'DCA', 'DEN', 'DFW', 'DTW', 'ELP', 'EWR', 'FLL', 'GEG', 'HOU', 'HPN', 'IAD', 'IAH', 'IND',
+  'ISP', 'JAX', 'JFK', 'LAS', 'LAX', 'LGA', 'LGB', 'MCI', 'MCO', 'MDW', 'MEM', 'MIA', 'MKE', 'MSP',
+  'MSY', 'OAK', 'OKC', 'OMA', 'ONT', 'ORD', 'PBI', 'PDX', 'PHL', 'PHX', 'PIT', 'PVD', 'RDU', 'RNO',
+  'RSW', 'SAN', 'SAT', 'SDF', 'SEA', 'SFO', 'SJC', 'SLC', 'SMF', 'SNA', 'STL', 'TPA', 'TUL', 'TUS',
+];
+
+export const ICAO_CODES: Record<string, string> = {
+  ...Object.fromEntries(US_K_PREFIXED.map(iata => [iata, `K${iata}`])),
+  // North America outside the contiguous US
+  ANC: 'PANC', HNL: 'PHNL', OGG: 'PHOG', SJU: 'TJSJ',
+  YYZ: 'CYYZ', YTZ: 'CYTZ', YUL: 'CYUL', YVR: 'CYVR', YYC: 'CYYC', YOW: 'CYOW', YHZ: 'CYHZ',
+  MEX: 'MMMX', CUN: 'MMUN', GDL: 'MMGL', MTY: 'MMMY',
+  // Central and South America
+  PTY: 'MPTO', SJO: 'MROC', HAV: 'MUHA', BOG: 'SKBO', LIM: 'SPJC', SCL: 'SCEL',
+  GRU: 'SBGR', CGH: 'SBSP', VCP: 'SBKP', GIG: 'SBGL', SDU: 'SBRJ', EZE: 'SAEZ', AEP: 'SABE',
+  // Europe
+  LHR: 'EGLL', LGW: 'EGKK', STN: 'EGSS', LTN: 'EGGW', LCY: 'EGLC', SEN: 'EGMC',
+  MAN: 'EGCC', EDI: 'EGPH', GLA: 'EGPF', BHX: 'EGBB', DUB: 'EIDW',
+  CDG: 'LFPG', ORY: 'LFPO', BVA: 'LFOB', NCE: 'LFMN', LYS: 'LFLL', MRS: 'LFML', TLS: 'LFBO',
+  FRA: 'EDDF', MUC: 'EDDM', TXL: 'EDDT', SXF: 'EDDB', HAM: 'EDDH', DUS: 'EDDL', CGN: 'EDDK', STR: 'EDDS',
+  AMS: 'EHAM', BRU: 'EBBR', ZRH: 'LSZH', GVA: 'LSGG', VIE: 'LOWW',
+  CPH: 'EKCH', ARN: 'ESSA', BMA: 'ESSB', NYO: 'ESKN', OSL: 'ENGM', HEL: 'EFHK', KEF: 'BIKF', RKV: 'BIRK',
+  MAD: 'LEMD', BCN: 'LEBL', PMI: 'LEPA', AGP: 'LEMG', LIS: 'LPPT', OPO: 'LPPR',
+  FCO: 'LIRF', CIA: 'LIRA', MXP: 'LIMC', LIN: 'LIML', BGY: 'LIME', NAP: 'LIRN', VCE: 'LIPZ', BLQ: 'LIPE',
+  ATH: 'LGAV', IST: 'LTFM', SAW: 'LTFJ', WAW: 'EPWA', PRG: 'LKPR', BUD: 'LHBP', OTP: 'LROP', SOF: 'LBSF',
+  BEG: 'LYBE', ZAG: 'LDZA', LJU: 'LJLJ', KBP: 'UKBB', SVO: 'UUEE', DME: 'UUDD', VKO: 'UUWW', LED: 'ULLI',
+  // Middle East and Africa
+  DXB: 'OMDB', DWC: 'OMDW', AUH: 'OMAA', DOH: 'OTHH', RUH: 'OERK', JED: 'OEJN', TLV: 'LLBG',
+  CAI: 'HECA', JNB: 'FAOR', CPT: 'FACT', NBO: 'HKJK', ADD: 'HAAB', LOS: 'DNMM', CMN: 'GMMN',
+  // Asia
+  DEL: 'VIDP', BOM: 'VABB', BLR: 'VOBL', MAA: 'VOMM', CCU: 'VECC', HYD: 'VOHS',
+  KHI: 'OPKC', LHE: 'OPLA', DAC: 'VGHS', KTM: 'VNKT', CMB: 'VCBI', MLE: 'VRMM',
+  TAS: 'UTTT', ALA: 'UAAA', GYD: 'UBBB', TBS: 'UGTB', EVN: 'UDYZ',
+  SIN: 'WSSS', KUL: 'WMKK', BKK: 'VTBS', DMK: 'VTBD', CGK: 'WIII', HLP: 'WIHH', MNL: 'RPLL',
+  SGN: 'VVTS', HAN: 'VVNB', HKG: 'VHHH', TPE: 'RCTP', TSA: 'RCSS',
+  PEK: 'ZBAA', PKX: 'ZBAD', PVG: 'ZSPD', SHA: 'ZSSS', CAN: 'ZGGG', SZX: 'ZGSZ', CTU: 'ZUUU',
+  KMG: 'ZPPP', XIY: 'ZLXY', CKG: 'ZUCK', HGH: 'ZSHC', NKG: 'ZSNJ', WUH: 'ZHHH', TSN: 'ZBTJ', TAO: 'ZSQD',
+  HND: 'RJTT', NRT: 'RJAA', KIX: 'RJBB', ITM: 'RJOO', UKB: 'RJBE', CTS: 'RJCC', FUK: 'RJFF', OKA: 'ROAH',
+  ICN: 'RKSI', GMP: 'RKSS', PUS: 'RKPK', CJU: 'RKPC',
+  // Oceania
+  SYD: 'YSSY', MEL: 'YMML', BNE: 'YBBN', PER: 'YPPH', AKL: 'NZAA',
+};
+
+// IATA metropolitan-area codes and their airports, main airport first
+export const METRO_AREAS: Record<string, { city: string; airports: string[] }> = {
+  LON: { city: 'London', airports: ['LHR', 'LGW', 'STN', 'LTN', 'LCY', 'SEN'] },
+  PAR: { city: 'Paris', airports: ['CDG', 'ORY', 'BVA'] },
+  BER: { city: 'Berlin', airports: ['TXL', 'SXF'] },
+  MIL: { city: 'Milan', airports: ['MXP', 'LIN', 'BGY'] },
+  ROM: { city: 'Rome', airports: ['FCO', 'CIA'] },
+  STO: { city: 'Stockholm', airports: ['ARN', 'BMA', 'NYO'] },
+  MOW: { city: 'Moscow', airports: ['SVO', 'DME', 'VKO'] },
+  IST: { city: 'Istanbul', airports: ['IST', 'SAW'] },
+  REK: { city: 'Reykjavik', airports: ['KEF', 'RKV'] },
+  NYC: { city: 'New York', airports: ['JFK', 'EWR', 'LGA'] },
+  WAS: { city: 'Washington', airports: ['IAD', 'DCA', 'BWI'] },
+  CHI: { city: 'Chicago', airports: ['ORD', 'MDW'] },
+  DFW: { city: 'Dallas', airports: ['DFW', 'DAL'] },
+  HOU: { city: 'Houston', airports: ['IAH', 'HOU'] },
+  QLA: { city: 'Los Angeles', airports: ['LAX', 'BUR', 'LGB', 'SNA', 'ONT'] },
+  QSF: { city: 'San Francisco Bay Area', airports: ['SFO', 'OAK', 'SJC'] },
+  YTO: { city: 'Toronto', airports: ['YYZ', 'YTZ'] },
+  SAO: { city: 'São Paulo', airports: ['GRU', 'CGH', 'VCP'] },
+  RIO: { city: 'Rio de Janeiro', airports: ['GIG', 'SDU'] },
+  BUE: { city: 'Buenos Aires', airports: ['EZE', 'AEP'] },
+  TYO: { city: 'Tokyo', airports: ['HND', 'NRT'] },
+  OSA: { city: 'Osaka', airports: ['KIX', 'ITM', 'UKB'] },
+  SEL: { city: 'Seoul', airports: ['ICN', 'GMP'] },
+  BJS: { city: 'Beijing', airports: ['PEK', 'PKX'] },
+  SHA: { city: 'Shanghai', airports: ['PVG', 'SHA'] },
+  BKK: { city: 'Bangkok', airports: ['BKK', 'DMK'] },
+  JKT: { city: 'Jakarta', airports: ['CGK', 'HLP'] },
+  TPE: { city: 'Taipei', airports: ['TPE', 'TSA'] },
+  DXB: { city: 'Dubai', airports: ['DXB', 'DWC'] },
+};
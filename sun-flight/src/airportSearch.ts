@@ -0,0 +1,151 @@
+import { METRO_AREAS } from './airportCodes';
+import type { Airport } from './airports';
+
+// Ranked airport search over IATA, ICAO and metro codes, city, name and
+// country. Text is folded (case, accents, punctuation) once when the index is
+// built, so each keystroke is a scan over short prepared strings; longer words
+// also match with a typo or two, checked against the index's vocabulary
+// rather than airport by airport.
+
+interface IndexEntry {
+  airport: Airport;
+  city: string; // folded
+  name: string;
+  country: string;
+  words: string[]; // folded words of city, name and country
+}
+
+export interface AirportIndex {
+  entries: IndexEntry[];
+  vocabulary: string[]; // every distinct folded word
+  metros: Map<string, Airport[]>; // metro code → its airports, main one first
+}
+
+// Relevance of each kind of match; an airport takes its best one
+const SCORE = {
+  iata: 1000,
+  icao: 950,
+  metro: 900,
+  city: 800,
+  codePrefix: 750,
+  cityPrefix: 700,
+  country: 650,
+  wordPrefix: 600,
+  allWords: 500,
+  substring: 400,
+  countryPrefix: 300,
+  fuzzy: 200,
+};
+
+// Lower case without accents or punctuation, e.g. 'São Paulo-Congonhas' → 'sao paulo congonhas'
+export function foldText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent swaps),
+// giving up once it must exceed `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, prev2[j - 2] + 1);
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return max + 1;
+    prev2 = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// Typos allowed for a query word of this length
+const allowedTypos = (length: number) => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+export function createAirportIndex(airports: Airport[]): AirportIndex {
+  const entries = airports.map(airport => {
+    const city = foldText(airport.city);
+    const name = foldText(airport.name);
+    const country = foldText(airport.country);
+    return { airport, city, name, country, words: [...new Set(`${city} ${name} ${country}`.split(' '))] };
+  });
+  const byIata = new Map(airports.map(a => [a.iata, a]));
+  const metros = new Map(Object.entries(METRO_AREAS).map(([metro, area]) =>
+    [metro, area.airports.map(iata => byIata.get(iata)).filter((a): a is Airport => !!a)]));
+  const vocabulary = [...new Set(entries.flatMap(e => e.words))];
+  return { entries, vocabulary, metros };
+}
+
+// Vocabulary words within the allowed typos of a query word (compared with
+// the word's start, so 'frankfrut' finds 'frankfurt'), with their distance
+function fuzzyMatches(vocabulary: string[], queryWord: string): Map<string, number> {
+  const max = allowedTypos(queryWord.length);
+  const matches = new Map<string, number>();
+  if (max === 0) return matches;
+  for (const word of vocabulary) {
+    const d = editDistance(queryWord, word.slice(0, queryWord.length + max), max);
+    if (d <= max) matches.set(word, d);
+  }
+  return matches;
+}
+
+function scoreEntry(entry: IndexEntry, query: string, queryWords: string[], fuzzy: () => Map<string, number>[]): number {
+  const { city, name, country, words, airport } = entry;
+  const code = query.toUpperCase();
+  if (airport.iata === code) return SCORE.iata;
+  if (airport.icao === code) return SCORE.icao;
+  if (city === query) return SCORE.city;
+  if (query.length <= 3 && (airport.iata.startsWith(code) || airport.icao?.startsWith(code))) return SCORE.codePrefix;
+  if (city.startsWith(query)) return SCORE.cityPrefix;
+  if (country === query) return SCORE.country;
+  if (words.some(w => w.startsWith(query))) return SCORE.wordPrefix;
+  if (queryWords.length > 1 && queryWords.every(q => words.some(w => w.startsWith(q)))) return SCORE.allWords;
+  if (query.length >= 3 && (name.includes(query) || city.includes(query))) return SCORE.substring;
+  if (country.startsWith(query)) return SCORE.countryPrefix;
+  // Every query word close to some word of the airport, e.g. 'frankfrut' or 'sidney'
+  let typos = 0;
+  for (const matches of fuzzy()) {
+    const best = Math.min(...words.map(w => matches.get(w) ?? Infinity));
+    if (!Number.isFinite(best)) return 0;
+    typos += best;
+  }
+  return SCORE.fuzzy - 10 * typos;
+}
+
+// Best matches first. Metro codes (LON, NYC) list their airports right after
+// an exact code match; ties go to airports in a metro group, main one first,
+// and to those with a known ICAO code, which are the busier ones, then to IATA order.
+export function searchAirports(index: AirportIndex, query: string, limit = 50): Airport[] {
+  const folded = foldText(query);
+  if (!folded) return [];
+  const queryWords = folded.split(' ');
+  const scores = new Map<Airport, number>();
+  const metroAirports = index.metros.get(folded.toUpperCase()) ?? [];
+  metroAirports.forEach((airport, i) => scores.set(airport, SCORE.metro - i));
+  // Worked out on first use, as most queries match directly
+  let fuzzy: Map<string, number>[] | null = null;
+  const getFuzzy = () => (fuzzy ??= queryWords.map(q => fuzzyMatches(index.vocabulary, q)));
+  for (const entry of index.entries) {
+    const score = scoreEntry(entry, folded, queryWords, getFuzzy);
+    if (score > (scores.get(entry.airport) ?? 0)) scores.set(entry.airport, score);
+  }
+  const boost = (a: Airport) => {
+    const group = a.metro ? index.metros.get(a.metro) ?? [] : [];
+    return (group.includes(a) ? 20 - 2 * group.indexOf(a) : 0) + (a.icao ? 1 : 0);
+  };
+  return [...scores.entries()]
+    .sort(([a, sa], [b, sb]) => sb - sa || boost(b) - boost(a) || a.iata.localeCompare(b.iata))
+    .slice(0, limit)
+    .map(([airport]) => airport);
+}
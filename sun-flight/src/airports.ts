@@ -1,3 +1,6 @@
+import airportData from './airports.json';
+import { ICAO_CODES, METRO_AREAS } from './airportCodes';
+
 export interface Airport {
   iata: string;
   name: string;
@@ -6,6 +9,9 @@ export interface Airport {
   lat: number;
   lon: number;
   timezone: string; // IANA timezone, e.g. 'Asia/Singapore'
+  icao?: string; // e.g. 'WSSS'; known for the busier airports only
+  metro?: string; // IATA metropolitan-area code, e.g. 'LON' for LHR
+  custom?: boolean; // a place or pin the user entered, not a database airport
 }
 
 export const airports: Airport[] = [
@@ -20,4 +26,19 @@ export const airports: Airport[] = [
   { iata: 'FRA', name: 'Frankfurt Airport', city: 'Frankfurt', country: 'Germany', lat: 50.0379, lon: 8.5622, timezone: 'Europe/Berlin' },
   { iata: 'SFO', name: 'San Francisco International Airport', city: 'San Francisco', country: 'USA', lat: 37.6213, lon: -122.3790, timezone: 'America/Los_Angeles' },
   // ...add more as needed
-]; 
\ No newline at end of file
+]; 
+
+const metroOf = new Map(Object.entries(METRO_AREAS).flatMap(([metro, area]) => area.airports.map(iata => [iata, metro] as const)));
+
+// Full airport database shipped with the app, with ICAO and metro codes added
+export const allAirports: Airport[] = airportData.map(a => ({
+  ...a,
+  ...(ICAO_CODES[a.iata] && { icao: ICAO_CODES[a.iata] }),
+  ...(metroOf.has(a.iata) && { metro: metroOf.get(a.iata) }),
+}));
+
+// Looks up an airport in the full database by IATA or known ICAO code (case-insensitive)
+export function findAirport(code: string): Airport | undefined {
+  const upper = code.trim().toUpperCase();
+  return allAirports.find(a => a.iata === upper) ?? allAirports.find(a => a.icao === upper);
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeFlightCsv, parseFlightCsv } from './batch'
+
+describe('parseFlightCsv', () => {
+  it('skips a header row by its column names', () => {
+    for (const header of ['source,destination,departure,duration', 'From,To,Departure,Duration (h)', 'origin,dest,depart,hours']) {
+      const rows = parseFlightCsv(`${header}\nLHR,JFK,2024-06-01T10:00,8`);
+      expect(rows).toEqual([{ line: 2, source: 'LHR', destination: 'JFK', departure: '2024-06-01T10:00', duration: '8' }]);
+    }
+  });
+
+  it('keeps a first flight whose duration is missing or bad', () => {
+    const rows = parseFlightCsv('LHR,JFK,2024-06-01T10:00,eight\nJFK,LAX,2024-06-02T09:00,6');
+    expect(rows.map(r => r.source)).toEqual(['LHR', 'JFK']);
+    expect(analyzeFlightCsv('LHR,JFK,2024-06-01T10:00,')[0].error).toBe('Invalid flight duration.');
+  });
+});
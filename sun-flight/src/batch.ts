@@ -0,0 +1,75 @@
+import { parseCsv, toCsv } from './csv';
+import { findAirport } from './airports';
+import { analyzeFlight, type FlightSunReport } from './flightAnalysis';
+
+export interface BatchRow {
+  line: number; // 1-based row in the CSV (blank lines not counted), for error messages
+  source: string;
+  destination: string;
+  departure: string;
+  duration: string;
+}
+
+export interface BatchResult {
+  row: BatchRow;
+  report?: FlightSunReport;
+  error?: string;
+}
+
+// Column names that mark the first row as a header rather than a flight
+const HEADER_NAMES = new Set(['source', 'from', 'origin', 'destination', 'dest', 'to', 'departure', 'depart', 'duration', 'durationhours', 'hours']);
+
+const isHeader = (cells: string[]) => cells.some(cell => HEADER_NAMES.has(cell.toLowerCase().replace(/[^a-z]/g, '')));
+
+// Reads rows of `source,destination,departure,duration`. A first row naming
+// any of those columns (or from/to and the like) is skipped as a header; a
+// flight row with a bad duration is kept, to be reported as an error.
+export function parseFlightCsv(text: string): BatchRow[] {
+  const rows = parseCsv(text).map((cells, i) => ({ cells: cells.map(c => c.trim()), line: i + 1 }));
+  if (rows.length > 0 && isHeader(rows[0].cells)) rows.shift();
+  return rows.map(({ cells, line }) => ({
+    line,
+    source: cells[0] ?? '',
+    destination: cells[1] ?? '',
+    departure: cells[2] ?? '',
+    duration: cells[3] ?? '',
+  }));
+}
+
+// Analyzes a single batch row, turning lookup and validation failures into a
+// per-row error instead of throwing
+export function analyzeBatchRow(row: BatchRow): BatchResult {
+  const source = findAirport(row.source);
+  if (!source) return { row, error: `Unknown airport code: ${row.source || '(empty)'}` };
+  const destination = findAirport(row.destination);
+  if (!destination) return { row, error: `Unknown airport code: ${row.destination || '(empty)'}` };
+  try {
+    const report = analyzeFlight({ source, destination, departure: row.departure, durationHours: Number(row.duration) });
+    return { row, report };
+  } catch (err) {
+    return { row, error: (err as Error).message };
+  }
+}
+
+export function analyzeBatch(rows: BatchRow[]): BatchResult[] {
+  return rows.map(analyzeBatchRow);
+}
+
+export function analyzeFlightCsv(text: string): BatchResult[] {
+  return analyzeBatch(parseFlightCsv(text));
+}
+
+export function batchResultsToCsv(results: BatchResult[]): string {
+  const header = ['source', 'destination', 'departure', 'duration_hours', 'recommended_side', 'sun_visible_percent', 'event_count', 'error'];
+  const rows = results.map(({ row, report, error }) => [
+    row.source.toUpperCase(),
+    row.destination.toUpperCase(),
+    row.departure,
+    row.duration,
+    report?.recommendation ?? '',
+    report ? report.breakdown.visible : '',
+    report ? report.events.length : '',
+    error ?? '',
+  ]);
+  return toCsv([header, ...rows]);
+}
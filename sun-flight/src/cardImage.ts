@@ -0,0 +1,40 @@
+import { CARD_HEIGHT, CARD_WIDTH } from './resultCard';
+import type { PdfImage } from './pdf';
+
+// Browser-side rasterising of the SVG result card through a canvas
+
+const PIXEL_RATIO = 2;
+
+async function drawSvg(svg: string): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = CARD_WIDTH * PIXEL_RATIO;
+    canvas.height = CARD_HEIGHT * PIXEL_RATIO;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available.');
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not render the card.'))), type, quality);
+  });
+}
+
+export async function svgToPng(svg: string): Promise<Blob> {
+  return toBlob(await drawSvg(svg), 'image/png');
+}
+
+export async function svgToJpeg(svg: string): Promise<PdfImage> {
+  const canvas = await drawSvg(svg);
+  const blob = await toBlob(canvas, 'image/jpeg', 0.92);
+  return { jpeg: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+}
@@ -0,0 +1,94 @@
+import { DateTime } from 'luxon';
+import { analyzeFlight, type FlightInput, type FlightSunReport } from './flightAnalysis';
+
+// Sweeps a route over many departure times to find the ones that give the
+// best view from one side, for choosing between several daily flights
+
+export type SweepMetric = 'share' | 'sunrise' | 'sunset';
+
+export interface SweepOptions {
+  flight: Omit<FlightInput, 'departure' | 'intervalMinutes' | 'renderSamples' | 'waypoints' | 'track'>;
+  startDate: string; // local date at the source airport, 'yyyy-LL-dd'
+  days: number;
+  stepMinutes: number; // spacing of departures within each day
+  side: 'Left' | 'Right';
+  metric: SweepMetric;
+}
+
+export interface SweepCell {
+  departure: string; // local ISO date-time at the source, as the form takes it
+  value: number | null; // 0-100, null when the analysis failed
+}
+
+export interface SweepRow {
+  date: string;
+  cells: SweepCell[];
+}
+
+// Coarser than the single-flight analysis; events are still solved exactly
+const SWEEP_INTERVAL_MINUTES = 20;
+
+// Share of the whole flight (in whole percent) with the sun in view from
+// `side`, or 100/0 for whether a sunrise or sunset happens on that side
+export function scoreReport(report: FlightSunReport, side: 'Left' | 'Right', metric: SweepMetric): number {
+  if (metric === 'share') {
+    const sideShare = side === 'Left' ? report.breakdown.left : report.breakdown.right;
+    return Math.round((report.breakdown.visible * sideShare) / 100);
+  }
+  return report.events.some(ev => ev.type === metric && ev.position === side) ? 100 : 0;
+}
+
+// Local times of day from midnight in steps, e.g. ['00:00', '00:30', ...]
+export function sweepTimesOfDay(stepMinutes: number): string[] {
+  const times: string[] = [];
+  for (let m = 0; m < 24 * 60; m += stepMinutes) {
+    times.push(`${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`);
+  }
+  return times;
+}
+
+export function sweepDay(options: SweepOptions, date: string): SweepRow {
+  const cells = sweepTimesOfDay(options.stepMinutes).map(time => {
+    const departure = `${date}T${time}`;
+    try {
+      const report = analyzeFlight({
+        ...options.flight,
+        departure,
+        intervalMinutes: SWEEP_INTERVAL_MINUTES,
+        renderSamples: 2,
+      });
+      return { departure, value: scoreReport(report, options.side, options.metric) };
+    } catch {
+      return { departure, value: null };
+    }
+  });
+  return { date, cells };
+}
+
+// Runs the sweep a day at a time, yielding to the browser between days so the
+// page stays responsive. Stops early (returning what it has) once `signal` aborts.
+export async function sweepDepartures(
+  options: SweepOptions,
+  onProgress?: (rows: SweepRow[]) => void,
+  signal?: AbortSignal,
+): Promise<SweepRow[]> {
+  const start = DateTime.fromISO(options.startDate);
+  if (!start.isValid) throw new Error('Invalid start date.');
+  const rows: SweepRow[] = [];
+  for (let d = 0; d < options.days; d++) {
+    if (signal?.aborted) break;
+    rows.push(sweepDay(options, start.plus({ days: d }).toISODate()!));
+    onProgress?.([...rows]);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return rows;
+}
+
+// Highest-scoring departures, best first
+export function bestDepartures(rows: SweepRow[], count: number): SweepCell[] {
+  return rows
+    .flatMap(row => row.cells)
+    .filter(cell => cell.value !== null && cell.value > 0)
+    .sort((a, b) => b.value! - a.value!)
+    .slice(0, count);
+}
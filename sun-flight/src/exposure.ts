@@ -0,0 +1,65 @@
+import type { SunSample } from './flightAnalysis';
+
+// 'avoid' picks the shaded window, 'seek' the sunny one (sunrise/sunset photos, views)
+export type SeatGoal = 'avoid' | 'seek';
+
+export interface ExposureScore {
+  windowA: number; // weighted hours of sun on the left-hand windows
+  windowF: number; // weighted hours of sun on the right-hand windows
+  shareA: number; // 0..1 share of the total exposure on the left
+  shareF: number;
+  goal: SeatGoal;
+  side: 'Left' | 'Right' | null; // recommended side for the goal; null when the sun never reaches a window
+  confidence: number; // 0..1
+}
+
+// Window normals relative to the nose, in degrees clockwise
+const LEFT_WINDOW_NORMAL = 270;
+const RIGHT_WINDOW_NORMAL = 90;
+// Below this much weighted exposure the choice of side barely matters, so the
+// confidence is scaled down
+const MIN_MEANINGFUL_EXPOSURE_HOURS = 0.25;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+// Instantaneous strength of the sun on each window, 0..1. Low sun shines
+// straight through the window while high sun is blocked by the fuselage, and
+// sun abeam counts fully while sun ahead or behind only grazes the window.
+export function windowIntensity(sample: Pick<SunSample, 'altitude' | 'horizonAltitude' | 'relativeAngle'>): { left: number; right: number } {
+  if (sample.horizonAltitude < 0) return { left: 0, right: 0 };
+  const altitudeWeight = Math.cos(toRad(Math.max(0, sample.altitude)));
+  return {
+    left: altitudeWeight * Math.max(0, Math.cos(toRad(sample.relativeAngle - LEFT_WINDOW_NORMAL))),
+    right: altitudeWeight * Math.max(0, Math.cos(toRad(sample.relativeAngle - RIGHT_WINDOW_NORMAL))),
+  };
+}
+
+// Integrates window intensity over the flight (trapezoidal, so uneven sample
+// spacing is weighted by duration) and picks a side for the goal
+export function scoreWindowExposure(samples: SunSample[], goal: SeatGoal = 'seek'): ExposureScore {
+  let windowA = 0;
+  let windowF = 0;
+  for (let i = 0; i < samples.length - 1; i++) {
+    const hours = (samples[i + 1].time.getTime() - samples[i].time.getTime()) / 3600000;
+    const a = windowIntensity(samples[i]);
+    const b = windowIntensity(samples[i + 1]);
+    windowA += ((a.left + b.left) / 2) * hours;
+    windowF += ((a.right + b.right) / 2) * hours;
+  }
+
+  const total = windowA + windowF;
+  if (total === 0) {
+    return { windowA, windowF, shareA: 0, shareF: 0, goal, side: null, confidence: 0 };
+  }
+  const sunnier = windowA >= windowF ? 'Left' : 'Right';
+  const contrast = Math.abs(windowA - windowF) / total;
+  return {
+    windowA,
+    windowF,
+    shareA: windowA / total,
+    shareF: windowF / total,
+    goal,
+    side: goal === 'seek' ? sunnier : sunnier === 'Left' ? 'Right' : 'Left',
+    confidence: contrast * Math.min(1, total / MIN_MEANINGFUL_EXPOSURE_HOURS),
+  };
+}
@@ -0,0 +1,258 @@
+import { DateTime } from 'luxon';
+import { interpolateGreatCircle, getGreatCircleDistance, type SunSide } from './sunUtils';
+import { defaultCruiseAltitude } from './flightProfile';
+import { routeModel, sampleAdaptive, sampleEvenly, trackModel } from './routeSampler';
+import { createRoutePath, pathPolyline, routeBetween } from './routePath';
+import type { TrackPoint } from './trackImport';
+import { scoreWindowExposure, type ExposureScore, type SeatGoal } from './exposure';
+import { seatGuidance, type Aircraft, type SeatGuidance } from './aircraft';
+import { analyzeMoon, type MoonReport } from './moonAnalysis';
+import { detectLightWindows, type LightWindow } from './lightWindows';
+import type { Airport } from './airports';
+
+export interface SunSample {
+  time: Date;
+  lat: number;
+  lon: number;
+  azimuth: number; // deg, clockwise from north
+  altitude: number; // deg, geometric altitude above the horizontal
+  horizonAltitude: number; // deg, sun's upper limb above the horizon visible from the cabin
+  aircraftAltitude: number; // m above the surface
+  heading: number; // deg, aircraft track at this sample
+  relativeAngle: number; // deg, sun azimuth relative to the nose
+  side: SunSide;
+}
+
+export interface SunEvent {
+  type: 'sunrise' | 'sunset';
+  time: Date;
+  lat: number;
+  lon: number;
+  azimuth: number;
+  position: SunSide;
+}
+
+// Share of the flight (in whole percent) during which the sun is up, and how
+// that daylight time splits between the four sides of the aircraft
+export interface SideBreakdown {
+  visible: number;
+  left: number;
+  right: number;
+  ahead: number;
+  behind: number;
+}
+
+export interface FlightInput {
+  source: Airport;
+  destination: Airport;
+  departure: string; // local ISO date-time at the source airport, e.g. '2025-06-22T05:00'
+  durationHours: number; // departure and duration are taken from the track when one is given
+  intervalMinutes?: number; // max spacing of analysis samples; shorter flights are sampled more finely
+  renderSamples?: number; // evenly spaced samples for drawing, independent of the analysis precision
+  goal?: SeatGoal; // defaults to 'seek'
+  aircraft?: Aircraft;
+  cruiseAltitudeM?: number; // defaults by route length
+  waypoints?: [number, number][]; // [lat, lon] of the route actually flown; great circle when omitted
+  track?: TrackPoint[]; // recorded flight to replay instead of a predicted one
+}
+
+export interface FlightSunReport {
+  source: Airport;
+  destination: Airport;
+  departure: DateTime;
+  arrival: DateTime;
+  durationHours: number;
+  cruiseAltitudeM: number;
+  path: [number, number][][]; // flown path, split at the antimeridian
+  distanceKm: number; // along the flown path
+  greatCircleKm: number;
+  samples: SunSample[]; // analysis samples, refined around sunrise/sunset and side switches
+  renderSamples: SunSample[];
+  events: SunEvent[];
+  lightWindows: LightWindow[]; // golden/blue hour and twilight stretches
+  sunVisible: boolean;
+  breakdown: SideBreakdown;
+  exposure: ExposureScore;
+  moon: MoonReport;
+  aircraft?: Aircraft;
+  seat: SeatGuidance | null; // concrete window seat for the recommended side, if there is one
+  recommendation: string;
+  summary: string;
+  dstWarnings: string[];
+  // For a recorded track, the great-circle prediction for the same departure
+  // and duration, to compare against what actually happened
+  predicted?: { breakdown: SideBreakdown; recommendation: string };
+}
+
+export const NO_SUN_RECOMMENDATION = 'Neither (Sun not visible during flight)';
+export const EITHER_SIDE_RECOMMENDATION = 'Either (Sun stays ahead or behind)';
+
+const DEFAULT_RENDER_SAMPLES = 120;
+const PATH_STEPS = 20;
+// Imported waypoints are usually close together, so each leg between them needs few points
+const WAYPOINT_PATH_STEPS = 4;
+
+// Returns true if this date is a DST changeover (offset changes that day)
+export function isDSTChange(dt: DateTime): boolean {
+  const startOfDay = dt.startOf('day');
+  const endOfDay = dt.endOf('day');
+  return startOfDay.offset !== endOfDay.offset;
+}
+
+// Splits a polyline wherever consecutive points jump more than 180° in longitude
+// so Leaflet doesn't draw a line across the whole map at the date line
+export function splitAtAntimeridian(points: [number, number][]): [number, number][][] {
+  const segments: [number, number][][] = [];
+  let currentSegment: [number, number][] = [];
+  for (const point of points) {
+    const prevPoint = currentSegment[currentSegment.length - 1];
+    if (prevPoint && Math.abs(point[1] - prevPoint[1]) > 180) {
+      segments.push(currentSegment);
+      currentSegment = [point];
+    } else {
+      currentSegment.push(point);
+    }
+  }
+  if (currentSegment.length > 0) segments.push(currentSegment);
+  return segments;
+}
+
+// Great-circle path between two points as map-ready segments
+export function createFlightPath(lat1: number, lon1: number, lat2: number, lon2: number, steps = PATH_STEPS): [number, number][][] {
+  const points: [number, number][] = [];
+  for (let i = 0; i <= steps; i++) {
+    const point = interpolateGreatCircle(lat1, lon1, lat2, lon2, i / steps);
+    points.push([point.lat, point.lon]);
+  }
+  return splitAtAntimeridian(points);
+}
+
+// Finds sunrise/sunset as seen from the cabin: crossings of the visible
+// horizon between consecutive samples, interpolated linearly. The adaptive
+// sampler bisects each crossing to a half-second bracket and samples its end,
+// so the crossing lies in the 500 ms before that sample; the interpolation
+// only estimates where. SunCalc's ground-level times don't apply at altitude,
+// where dip and thinner air make the sun rise earlier and set later.
+function detectSunEvents(samples: SunSample[]): SunEvent[] {
+  const events: SunEvent[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const prev = samples[i - 1];
+    const p = samples[i];
+    const rising = prev.horizonAltitude < 0 && p.horizonAltitude >= 0;
+    const setting = prev.horizonAltitude >= 0 && p.horizonAltitude < 0;
+    if (!rising && !setting) continue;
+    const frac = prev.horizonAltitude / (prev.horizonAltitude - p.horizonAltitude);
+    const eventTime = new Date(prev.time.getTime() + frac * (p.time.getTime() - prev.time.getTime()));
+    events.push({ type: rising ? 'sunrise' : 'sunset', time: eventTime, lat: p.lat, lon: p.lon, azimuth: p.azimuth, position: p.side });
+  }
+  return events;
+}
+
+// Totals the time the sun is up and on which side it sits. Samples are
+// unevenly spaced, so each interval is weighted by its duration.
+function computeBreakdown(samples: SunSample[]): { sunHours: number; breakdown: SideBreakdown } {
+  const hours: Record<SunSide, number> = { Left: 0, Right: 0, Ahead: 0, Behind: 0 };
+  let sunHours = 0;
+  let totalHours = 0;
+  for (let i = 0; i < samples.length - 1; i++) {
+    const interval = (samples[i + 1].time.getTime() - samples[i].time.getTime()) / 3600000;
+    totalHours += interval;
+    if (samples[i].horizonAltitude < 0) continue;
+    sunHours += interval;
+    hours[samples[i].side] += interval;
+  }
+  const pct = (n: number, total: number) => (total ? Math.round((n / total) * 100) : 0);
+  return {
+    sunHours,
+    breakdown: {
+      visible: pct(sunHours, totalHours),
+      left: pct(hours.Left, sunHours),
+      right: pct(hours.Right, sunHours),
+      ahead: pct(hours.Ahead, sunHours),
+      behind: pct(hours.Behind, sunHours),
+    },
+  };
+}
+
+// Runs the full sun-exposure analysis for a single flight. Throws if the
+// departure time cannot be parsed in the source airport's timezone.
+export function analyzeFlight(input: FlightInput): FlightSunReport {
+  const { source, destination, track } = input;
+  if (track && track.length < 2) throw new Error('A track needs at least two timestamped positions.');
+  const departure = track
+    ? DateTime.fromJSDate(track[0].time, { zone: source.timezone })
+    : DateTime.fromISO(input.departure, { zone: source.timezone });
+  const durationHours = track
+    ? (track[track.length - 1].time.getTime() - track[0].time.getTime()) / 3600000
+    : input.durationHours;
+  if (!departure.isValid) throw new Error('Invalid departure time.');
+  if (!Number.isFinite(durationHours) || durationHours <= 0) throw new Error('Invalid flight duration.');
+  const arrival = departure.plus({ hours: durationHours }).setZone(destination.timezone);
+
+  const dstWarnings: string[] = [];
+  if (isDSTChange(departure)) dstWarnings.push(`Warning: Departure day is a DST changeover in ${source.city}.`);
+  if (isDSTChange(arrival)) dstWarnings.push(`Warning: Arrival day is a DST changeover in ${destination.city}.`);
+
+  const path = track
+    ? createRoutePath(track.map(p => [p.lat, p.lon]))
+    : routeBetween(source, destination, input.waypoints);
+  const cruiseAltitudeM = input.cruiseAltitudeM ?? defaultCruiseAltitude(path.totalKm);
+  const model = track
+    ? trackModel(track, cruiseAltitudeM)
+    : routeModel({ path, start: departure.toUTC().toJSDate(), durationHours, cruiseAltitudeM });
+  const samples = sampleAdaptive(model, input.intervalMinutes);
+  const events = detectSunEvents(samples);
+  const { sunHours, breakdown } = computeBreakdown(samples);
+  const sunVisible = sunHours > 0;
+  const exposure = scoreWindowExposure(samples, input.goal);
+
+  let recommendation: string;
+  let summary: string;
+  if (!sunVisible) {
+    recommendation = NO_SUN_RECOMMENDATION;
+    summary = 'The sun is below the horizon for the entire flight.';
+  } else {
+    recommendation = exposure.side ?? EITHER_SIDE_RECOMMENDATION;
+    summary = `The sun is visible for ${breakdown.visible}% of the flight: ${breakdown.left}% on the left, ${breakdown.right}% on the right, ${breakdown.ahead}% ahead, ${breakdown.behind}% behind.`;
+  }
+
+  return {
+    source,
+    destination,
+    departure,
+    arrival,
+    durationHours,
+    cruiseAltitudeM,
+    path: track || input.waypoints?.length
+      ? splitAtAntimeridian(pathPolyline(path, track ? 1 : WAYPOINT_PATH_STEPS))
+      : createFlightPath(source.lat, source.lon, destination.lat, destination.lon),
+    distanceKm: path.totalKm,
+    greatCircleKm: getGreatCircleDistance(source.lat, source.lon, destination.lat, destination.lon),
+    samples,
+    renderSamples: sampleEvenly(model, input.renderSamples ?? DEFAULT_RENDER_SAMPLES),
+    events,
+    lightWindows: detectLightWindows(samples),
+    sunVisible,
+    breakdown,
+    exposure,
+    moon: analyzeMoon(samples),
+    aircraft: input.aircraft,
+    seat: sunVisible && exposure.side ? seatGuidance(exposure.side, input.aircraft) : null,
+    recommendation,
+    summary,
+    dstWarnings,
+    predicted: track ? predictGreatCircle(input, departure, durationHours) : undefined,
+  };
+}
+
+// Great-circle analysis for the same times as a recorded track
+function predictGreatCircle(input: FlightInput, departure: DateTime, durationHours: number): FlightSunReport['predicted'] {
+  const { breakdown, recommendation } = analyzeFlight({
+    ...input,
+    track: undefined,
+    waypoints: undefined,
+    departure: departure.toISO({ includeOffset: false }) ?? input.departure,
+    durationHours,
+  });
+  return { breakdown, recommendation };
+}
@@ -0,0 +1,24 @@
+// Simplified vertical profile: a linear climb to cruise, level cruise and a
+// linear descent. On flights too short for the full climb and descent both
+// are compressed to fit.
+const CLIMB_HOURS = 20 / 60;
+const DESCENT_HOURS = 25 / 60;
+
+export const FEET_PER_METER = 3.28084;
+
+// Typical cruise levels: turboprop-like altitudes on short hops, FL330 on
+// domestic sectors and FL360 on long haul
+export function defaultCruiseAltitude(distanceKm: number): number {
+  if (distanceKm < 500) return 7600;
+  if (distanceKm < 1500) return 10000;
+  return 11000;
+}
+
+// Aircraft height above the surface in metres, `elapsedHours` after departure
+export function aircraftAltitudeAt(elapsedHours: number, durationHours: number, cruiseAltitudeM: number): number {
+  if (elapsedHours <= 0 || elapsedHours >= durationHours) return 0;
+  const climb = Math.min(CLIMB_HOURS, durationHours * 0.4);
+  const descent = Math.min(DESCENT_HOURS, durationHours * 0.45);
+  const fraction = Math.min(1, elapsedHours / climb, (durationHours - elapsedHours) / descent);
+  return cruiseAltitudeM * fraction;
+}
@@ -0,0 +1,38 @@
+import { getGreatCircleDistance } from './sunUtils';
+import type { Airport } from './airports';
+
+export const KM_PER_NMI = 1.852;
+
+// Simple block-time model: cruise at a typical jet speed over a slightly
+// longer-than-great-circle route, plus fixed time for taxi and the slower
+// climb and descent phases
+const CRUISE_SPEED_KMH = 850;
+const ROUTE_FACTOR = 1.05;
+const TAXI_HOURS = 0.3;
+const CLIMB_DESCENT_HOURS = 0.25;
+
+export interface DurationEstimate {
+  distanceKm: number;
+  distanceNmi: number;
+  hours: number; // estimated gate-to-gate block time
+}
+
+export function estimateBlockTime(distanceKm: number): number {
+  return (distanceKm * ROUTE_FACTOR) / CRUISE_SPEED_KMH + TAXI_HOURS + CLIMB_DESCENT_HOURS;
+}
+
+export function estimateFlightDuration(source: Airport, destination: Airport): DurationEstimate {
+  const distanceKm = getGreatCircleDistance(source.lat, source.lon, destination.lat, destination.lon);
+  return {
+    distanceKm,
+    distanceNmi: distanceKm / KM_PER_NMI,
+    hours: estimateBlockTime(distanceKm),
+  };
+}
+
+// Flight time for a form field: the distance-based estimate while auto mode is
+// on and both airports are known, otherwise whatever the user typed
+export function resolveFlightTime(auto: boolean, manual: string, source?: Airport, destination?: Airport): string {
+  if (auto && source && destination) return estimateFlightDuration(source, destination).hours.toFixed(1);
+  return manual;
+}
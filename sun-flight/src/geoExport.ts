@@ -0,0 +1,172 @@
+import { describeSide } from './sunUtils';
+import type { ItineraryReport, JourneySample } from './itinerary';
+
+// Exports the analysed journey for GIS and flight apps: the flown path (split
+// at the antimeridian like the map), sunrise/sunset events as points, and the
+// sun's position at every timeline sample. Built from the report, not the map.
+
+type Position = [number, number] | [number, number, number];
+
+interface Feature {
+  type: 'Feature';
+  geometry: { type: 'Point'; coordinates: Position } | { type: 'LineString'; coordinates: Position[] };
+  properties: Record<string, string | number | null>;
+}
+
+export interface FeatureCollection {
+  type: 'FeatureCollection';
+  features: Feature[];
+}
+
+const round = (n: number, digits: number) => Number(n.toFixed(digits));
+
+function sampleProperties(s: JourneySample): Record<string, string | number | null> {
+  return {
+    kind: 'sample',
+    time: s.time.toISOString(),
+    leg: s.leg + 1,
+    phase: s.phase,
+    sunAzimuth: round(s.azimuth, 2),
+    sunAltitude: round(s.altitude, 2),
+    horizonAltitude: round(s.horizonAltitude, 2),
+    aircraftAltitudeM: Math.round(s.aircraftAltitude),
+    heading: s.heading !== undefined ? round(s.heading, 1) : null,
+    side: s.side ?? null,
+  };
+}
+
+export function itineraryToGeoJson(report: ItineraryReport): FeatureCollection {
+  const features: Feature[] = [];
+  report.legs.forEach((leg, i) => {
+    leg.path.forEach((segment, j) => {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: segment.map(([lat, lon]) => [round(lon, 5), round(lat, 5)]) },
+        properties: {
+          kind: 'route',
+          leg: i + 1,
+          segment: j + 1,
+          source: leg.source.iata,
+          destination: leg.destination.iata,
+          departure: leg.departure.toISO(),
+          arrival: leg.arrival.toISO(),
+          recommendation: leg.recommendation,
+        },
+      });
+    });
+  });
+  for (const ev of report.events) {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [round(ev.lon, 5), round(ev.lat, 5)] },
+      properties: {
+        kind: 'sunEvent',
+        type: ev.type,
+        time: ev.time.toISOString(),
+        leg: ev.leg + 1,
+        phase: ev.phase,
+        sunAzimuth: round(ev.azimuth, 2),
+        side: ev.position ?? null,
+      },
+    });
+  }
+  for (const s of report.samples) {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [round(s.lon, 5), round(s.lat, 5), Math.round(s.aircraftAltitude)] },
+      properties: sampleProperties(s),
+    });
+  }
+  return { type: 'FeatureCollection', features };
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const journeyName = (report: ItineraryReport) =>
+  [report.legs[0].source, ...report.legs.map(leg => leg.destination)].map(a => a.iata).join(' → ');
+
+function kmlExtendedData(properties: Record<string, string | number | null>): string {
+  const data = Object.entries(properties)
+    .filter(([, value]) => value !== null)
+    .map(([name, value]) => `<Data name="${name}"><value>${escapeXml(String(value))}</value></Data>`)
+    .join('');
+  return `<ExtendedData>${data}</ExtendedData>`;
+}
+
+export function itineraryToKml(report: ItineraryReport): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `<name>${escapeXml(journeyName(report))}</name>`,
+    '<Style id="route"><LineStyle><color>ff24bffb</color><width>3</width></LineStyle></Style>',
+    '<Style id="sunrise"><IconStyle><color>ff0b9ef5</color></IconStyle></Style>',
+    '<Style id="sunset"><IconStyle><color>fff8bd38</color></IconStyle></Style>',
+    '<Folder><name>Route</name>',
+  ];
+  report.legs.forEach((leg, i) => {
+    leg.path.forEach((segment, j) => {
+      const coordinates = segment.map(([lat, lon]) => `${lon.toFixed(5)},${lat.toFixed(5)}`).join(' ');
+      lines.push(
+        `<Placemark><name>Leg ${i + 1}: ${leg.source.iata} → ${leg.destination.iata}${leg.path.length > 1 ? ` (part ${j + 1})` : ''}</name>`,
+        `<description>${escapeXml(`Helio Side: ${leg.recommendation}. ${leg.summary}`)}</description>`,
+        '<styleUrl>#route</styleUrl>',
+        `<LineString><tessellate>1</tessellate><coordinates>${coordinates}</coordinates></LineString></Placemark>`,
+      );
+    });
+  });
+  lines.push('</Folder>', '<Folder><name>Sun events</name>');
+  for (const ev of report.events) {
+    const label = ev.type === 'sunrise' ? 'Sunrise' : 'Sunset';
+    lines.push(
+      `<Placemark><name>${label}</name>`,
+      `<TimeStamp><when>${ev.time.toISOString()}</when></TimeStamp>`,
+      `<styleUrl>#${ev.type}</styleUrl>`,
+      kmlExtendedData({ leg: ev.leg + 1, phase: ev.phase, sunAzimuth: round(ev.azimuth, 2), side: ev.position ?? null }),
+      `<Point><coordinates>${ev.lon.toFixed(5)},${ev.lat.toFixed(5)}</coordinates></Point></Placemark>`,
+    );
+  }
+  lines.push('</Folder>', '<Folder><name>Sun samples</name><visibility>0</visibility>');
+  for (const s of report.samples) {
+    lines.push(
+      `<Placemark><visibility>0</visibility><TimeStamp><when>${s.time.toISOString()}</when></TimeStamp>`,
+      kmlExtendedData(sampleProperties(s)),
+      `<Point><altitudeMode>absolute</altitudeMode><coordinates>${s.lon.toFixed(5)},${s.lat.toFixed(5)},${Math.round(s.aircraftAltitude)}</coordinates></Point></Placemark>`,
+    );
+  }
+  lines.push('</Folder>', '</Document>', '</kml>');
+  return lines.join('\n') + '\n';
+}
+
+// GPX track with one segment per leg (flight samples only, timed, with the
+// aircraft height as elevation) and sunrise/sunset as waypoints. Sun position
+// per point goes in <extensions>, which GPX readers ignore if they don't know it.
+export function itineraryToGpx(report: ItineraryReport): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="HelioRoute" xmlns="http://www.topografix.com/GPX/1/1" xmlns:helio="https://helioroute.app/gpx/1">',
+    `<metadata><name>${escapeXml(journeyName(report))}</name><time>${report.departure.toUTC().toISO()}</time></metadata>`,
+  ];
+  for (const ev of report.events) {
+    const label = ev.type === 'sunrise' ? 'Sunrise' : 'Sunset';
+    lines.push(
+      `<wpt lat="${ev.lat.toFixed(5)}" lon="${ev.lon.toFixed(5)}"><time>${ev.time.toISOString()}</time>`
+        + `<name>${label}</name><desc>${escapeXml(`${label} ${ev.position ? describeSide(ev.position) : 'on the ground'}, sun azimuth ${ev.azimuth.toFixed(0)}°`)}</desc><type>${ev.type}</type></wpt>`,
+    );
+  }
+  lines.push(`<trk><name>${escapeXml(journeyName(report))}</name>`);
+  report.legs.forEach((_, i) => {
+    lines.push('<trkseg>');
+    for (const s of report.samples.filter(p => p.leg === i && p.phase === 'flight')) {
+      lines.push(
+        `<trkpt lat="${s.lat.toFixed(5)}" lon="${s.lon.toFixed(5)}"><ele>${Math.round(s.aircraftAltitude)}</ele><time>${s.time.toISOString()}</time>`
+          + `<extensions><helio:sunAzimuth>${s.azimuth.toFixed(2)}</helio:sunAzimuth><helio:sunAltitude>${s.altitude.toFixed(2)}</helio:sunAltitude>`
+          + `${s.side ? `<helio:side>${s.side}</helio:side>` : ''}</extensions></trkpt>`,
+      );
+    }
+    lines.push('</trkseg>');
+  });
+  lines.push('</trk>', '</gpx>');
+  return lines.join('\n') + '\n';
+}
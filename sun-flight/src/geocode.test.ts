@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { Airport } from './airports'
+import {
+  coordinatesToAirport,
+  endpointSlug,
+  fallbackProvider,
+  gazetteerProvider,
+  geocodeCity,
+  nominatimProvider,
+  parseCoordinates,
+  placeToAirport,
+  type GeocodingProvider,
+} from './geocode'
+
+const airport = (iata: string, city: string, country: string, lat: number, lon: number): Airport =>
+  ({ iata, name: `${city} Airport`, city, country, lat, lon, timezone: 'UTC' });
+
+const AIRPORTS = [
+  airport('ZRH', 'Zürich', 'Switzerland', 47.46, 8.55),
+  airport('ZAG', 'Zagreb', 'Croatia', 45.74, 16.07),
+  airport('SPR', 'Springfield', 'USA', 37.24, -93.39),
+  airport('SPI', 'Springfield', 'United States', 39.84, -89.68),
+  airport('SPF', 'Springfield', 'Australia', -34.9, 138.7),
+];
+
+const fixedProvider = (name: string, search: GeocodingProvider['search']): GeocodingProvider => ({ name, search });
+
+describe('nominatimProvider', () => {
+  it('queries Nominatim and maps its results', async () => {
+    const fetchFn = vi.fn<typeof fetch>(async () => new Response(JSON.stringify([
+      { display_name: 'Zermatt, Visp, Valais, Switzerland', lat: '46.02', lon: '7.75', address: { country: 'Switzerland' } },
+    ])));
+    const results = await nominatimProvider(fetchFn, 'https://geo.test/search').search('Zermatt & co');
+    expect(fetchFn).toHaveBeenCalledWith(expect.stringContaining('https://geo.test/search?'), expect.anything());
+    expect(fetchFn.mock.calls[0][0]).toContain('q=Zermatt%20%26%20co');
+    expect(results).toEqual([{ name: 'Zermatt', lat: 46.02, lon: 7.75, country: 'Switzerland' }]);
+  });
+
+  it('fails on an error response', async () => {
+    const fetchFn = async () => new Response('', { status: 503 });
+    await expect(nominatimProvider(fetchFn).search('Zermatt')).rejects.toThrow('Failed to fetch geocode data');
+  });
+});
+
+describe('gazetteerProvider', () => {
+  const gazetteer = gazetteerProvider(AIRPORTS);
+
+  it('finds cities by folded name', async () => {
+    expect(await gazetteer.search('zurich')).toEqual([{ name: 'Zürich', lat: 47.46, lon: 8.55, country: 'Switzerland' }]);
+  });
+
+  it('lists every city of that name, narrowed by country', async () => {
+    expect(await gazetteer.search('Springfield')).toHaveLength(3);
+    expect((await gazetteer.search('Springfield, Australia')).map(p => p.lat)).toEqual([-34.9]);
+  });
+
+  it('falls back to prefixes only without an exact match', async () => {
+    expect((await gazetteer.search('Za')).map(p => p.name)).toEqual(['Zagreb']);
+    expect(await gazetteer.search('Atlantis')).toEqual([]);
+  });
+});
+
+describe('fallbackProvider', () => {
+  const found = [{ name: 'Zermatt', lat: 46.02, lon: 7.75 }];
+
+  it('moves on when a provider fails or finds nothing', async () => {
+    const provider = fallbackProvider(
+      fixedProvider('down', async () => { throw new Error('offline'); }),
+      fixedProvider('empty', async () => []),
+      fixedProvider('gazetteer', async () => found),
+    );
+    expect(await provider.search('Zermatt')).toEqual(found);
+    expect(provider.name).toBe('down, then empty, then gazetteer');
+  });
+
+  it('reports the last failure when nothing is found', async () => {
+    const provider = fallbackProvider(
+      fixedProvider('down', async () => { throw new Error('offline'); }),
+      fixedProvider('empty', async () => []),
+    );
+    await expect(provider.search('Zermatt')).rejects.toThrow('offline');
+  });
+
+  it('stops when the search is aborted', async () => {
+    const controller = new AbortController();
+    const later = vi.fn(async () => found);
+    const provider = fallbackProvider(
+      fixedProvider('aborting', async () => { controller.abort(); throw new Error('aborted'); }),
+      fixedProvider('later', later),
+    );
+    await expect(provider.search('Zermatt', controller.signal)).rejects.toThrow('aborted');
+    expect(later).not.toHaveBeenCalled();
+  });
+});
+
+describe('geocodeCity', () => {
+  it('returns the first match and fails when there is none', async () => {
+    expect(await geocodeCity('Zagreb', gazetteerProvider(AIRPORTS))).toEqual({ lat: 45.74, lon: 16.07 });
+    await expect(geocodeCity('Atlantis', gazetteerProvider(AIRPORTS))).rejects.toThrow('City not found');
+  });
+});
+
+describe('parseCoordinates', () => {
+  it('reads signed decimal degrees', () => {
+    expect(parseCoordinates('51.5, -0.12')).toEqual({ lat: 51.5, lon: -0.12 });
+    expect(parseCoordinates('-33.9 151.2')).toEqual({ lat: -33.9, lon: 151.2 });
+  });
+
+  it('reads hemisphere letters', () => {
+    expect(parseCoordinates('51.5N 0.12W')).toEqual({ lat: 51.5, lon: -0.12 });
+    expect(parseCoordinates('33.9° s, 151.2° e')).toEqual({ lat: -33.9, lon: 151.2 });
+  });
+
+  it('rejects text and out-of-range values', () => {
+    expect(parseCoordinates('Zermatt')).toBeNull();
+    expect(parseCoordinates('95, 10')).toBeNull();
+    expect(parseCoordinates('45, 190')).toBeNull();
+  });
+});
+
+describe('placeToAirport', () => {
+  it('marks the place as custom, with a starred code and its time zone', () => {
+    expect(placeToAirport({ name: 'Zermatt', lat: 46.02, lon: 7.75, country: 'Switzerland' })).toMatchObject({
+      iata: 'ZER*',
+      city: 'Zermatt',
+      country: 'Switzerland',
+      timezone: 'Europe/Zurich',
+      custom: true,
+    });
+  });
+
+  it('names dropped pins by their coordinates', () => {
+    expect(coordinatesToAirport(-33.9, 151.2)).toMatchObject({
+      iata: 'PIN*',
+      name: '33.900°S 151.200°E',
+      timezone: 'Australia/Sydney',
+    });
+  });
+});
+
+describe('endpointSlug', () => {
+  it('names export files after the endpoint', () => {
+    expect(endpointSlug(AIRPORTS[0])).toBe('ZRH');
+    expect(endpointSlug(placeToAirport({ name: 'Saint-Émilion', lat: 44.89, lon: -0.16 }))).toBe('saint-emilion');
+    expect(endpointSlug(coordinatesToAirport(-33.9, -151.2))).toBe('33.90S-151.20W');
+  });
+});
@@ -1,20 +1,149 @@
-export async function geocodeCity(city: string): Promise<{ lat: number, lon: number }> {
-  const url = `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(city)}`;
-  const response = await fetch(url, {
-    headers: {
-      'Accept-Language': 'en',
-      'User-Agent': 'sun-flight-app/1.0 (your@email.com)'
-    }
-  });
-  if (!response.ok) {
-    throw new Error('Failed to fetch geocode data');
+import { allAirports, type Airport } from './airports';
+import { foldText } from './airportSearch';
+import { timezoneAt } from './timezoneLookup';
+
+// Turns a typed place into coordinates, through interchangeable providers so
+// the online service can be swapped out (or left out, offline and in tests)
+
+export interface GeocodeResult {
+  name: string;
+  lat: number;
+  lon: number;
+  country?: string;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  search(query: string, signal?: AbortSignal): Promise<GeocodeResult[]>;
+}
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
+const GAZETTEER_LIMIT = 5;
+
+// OpenStreetMap's Nominatim. Its usage policy asks for an identifying
+// User-Agent and at most one request per second, so only call it on demand.
+export function nominatimProvider(fetchFn: typeof fetch = (...args) => fetch(...args), baseUrl = NOMINATIM_URL): GeocodingProvider {
+  return {
+    name: 'OpenStreetMap Nominatim',
+    async search(query, signal) {
+      const url = `${baseUrl}?format=json&limit=5&addressdetails=1&q=${encodeURIComponent(query)}`;
+      const response = await fetchFn(url, {
+        signal,
+        headers: {
+          'Accept-Language': 'en',
+          'User-Agent': 'sun-flight-app/1.0 (your@email.com)'
+        }
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch geocode data');
+      }
+      const data: { display_name: string; lat: string; lon: string; address?: { country?: string } }[] = await response.json();
+      return data.map(place => ({
+        name: place.display_name.split(',')[0],
+        lat: parseFloat(place.lat),
+        lon: parseFloat(place.lon),
+        country: place.address?.country,
+      }));
+    },
+  };
+}
+
+// Offline gazetteer of the cities in the airport database, placed at their
+// first airport, matched on the folded city name (optionally ', country')
+export function gazetteerProvider(airports: Airport[] = allAirports): GeocodingProvider {
+  const places = new Map<string, GeocodeResult & { key: string }>();
+  for (const a of airports) {
+    const key = `${foldText(a.city)} ${foldText(a.country)}`;
+    if (!places.has(key)) places.set(key, { key, name: a.city, lat: a.lat, lon: a.lon, country: a.country });
   }
-  const data = await response.json();
-  if (!data || data.length === 0) {
+  const entries = [...places.values()];
+  return {
+    name: 'Offline gazetteer',
+    async search(query) {
+      const [city, country = ''] = query.split(',').map(foldText);
+      if (!city) return [];
+      const matches = (exact: boolean) => entries.filter(p =>
+        (exact ? p.key.startsWith(`${city} `) : p.key.startsWith(city)) && p.key.includes(country));
+      const exact = matches(true);
+      return (exact.length > 0 ? exact : matches(false))
+        .slice(0, GAZETTEER_LIMIT)
+        .map(({ name, lat, lon, country }) => ({ name, lat, lon, country }));
+    },
+  };
+}
+
+// Tries each provider in turn, moving on when one fails or finds nothing
+export function fallbackProvider(...providers: GeocodingProvider[]): GeocodingProvider {
+  return {
+    name: providers.map(p => p.name).join(', then '),
+    async search(query, signal) {
+      let lastError: unknown = null;
+      for (const provider of providers) {
+        try {
+          const results = await provider.search(query, signal);
+          if (results.length > 0) return results;
+        } catch (err) {
+          if (signal?.aborted) throw err;
+          lastError = err;
+        }
+      }
+      if (lastError) throw lastError;
+      return [];
+    },
+  };
+}
+
+export const defaultGeocoder = fallbackProvider(nominatimProvider(), gazetteerProvider());
+
+export async function geocodeCity(city: string, provider: GeocodingProvider = defaultGeocoder): Promise<{ lat: number, lon: number }> {
+  const [first] = await provider.search(city);
+  if (!first) {
     throw new Error('City not found');
   }
+  return { lat: first.lat, lon: first.lon };
+}
+
+// Reads "lat, lon" in decimal degrees, with optional N/S/E/W letters
+// ('51.5N 0.12W'); null when the text isn't a coordinate pair
+export function parseCoordinates(text: string): { lat: number; lon: number } | null {
+  const match = text.trim().match(/^([+-]?\d+(?:\.\d+)?)\s*°?\s*([NS])?[\s,;]+([+-]?\d+(?:\.\d+)?)\s*°?\s*([EW])?$/i);
+  if (!match) return null;
+  const lat = Number(match[1]) * (match[2]?.toUpperCase() === 'S' ? -1 : 1);
+  const lon = Number(match[3]) * (match[4]?.toUpperCase() === 'W' ? -1 : 1);
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lat, lon };
+}
+
+// Short label standing in for an IATA code, starred so it can't be taken for one
+export function placeCode(name: string): string {
+  return `${foldText(name).replace(/ /g, '').slice(0, 3).toUpperCase() || 'PIN'}*`;
+}
+
+// An arbitrary place as an endpoint, with its time zone looked up offline
+export function placeToAirport(place: GeocodeResult): Airport {
   return {
-    lat: parseFloat(data[0].lat),
-    lon: parseFloat(data[0].lon)
+    iata: placeCode(place.name),
+    name: place.name,
+    city: place.name,
+    country: place.country ?? '',
+    lat: place.lat,
+    lon: place.lon,
+    timezone: timezoneAt(place.lat, place.lon),
+    custom: true,
   };
-} 
\ No newline at end of file
+}
+
+// Readable file-name part for an endpoint: the IATA code for airports, the
+// place name for places, and short coordinates for pins, e.g. 33.90S-151.20E
+export function endpointSlug(airport: Airport): string {
+  if (!airport.custom) return airport.iata;
+  if (airport.iata !== 'PIN*') return foldText(airport.name).replace(/ /g, '-') || 'place';
+  const { lat, lon } = airport;
+  return `${Math.abs(lat).toFixed(2)}${lat >= 0 ? 'N' : 'S'}-${Math.abs(lon).toFixed(2)}${lon >= 0 ? 'E' : 'W'}`;
+}
+
+// Coordinates typed by hand or from a dropped pin
+export function coordinatesToAirport(lat: number, lon: number, name?: string): Airport {
+  const label = name ?? `${Math.abs(lat).toFixed(3)}°${lat >= 0 ? 'N' : 'S'} ${Math.abs(lon).toFixed(3)}°${lon >= 0 ? 'E' : 'W'}`;
+  return { ...placeToAirport({ name: label, lat, lon }), iata: 'PIN*' };
+}
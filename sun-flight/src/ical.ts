@@ -0,0 +1,129 @@
+import { DateTime, FixedOffsetZone } from 'luxon';
+import { describeSide, formatCoordinates } from './sunUtils';
+import type { ItineraryReport } from './itinerary';
+
+// iCalendar (RFC 5545) export: one event per flight leg, in the airports' own
+// time zones, plus a short event at each sunrise and sunset along the way
+
+const PRODID = '-//HelioRoute//Sun side planner//EN';
+const SUN_EVENT_MINUTES = 5;
+// Time-zone definitions cover the trip plus this margin on either side
+const TZ_MARGIN_HOURS = 24;
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Folds content lines longer than 75 octets, as the spec requires
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const ch of line) {
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (encoder.encode(current + ch).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += ch;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const utcStamp = (dt: DateTime) => dt.toUTC().toFormat("yyyyLLdd'T'HHmmss'Z'");
+const localStamp = (dt: DateTime) => dt.toFormat("yyyyLLdd'T'HHmmss");
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+};
+
+// VTIMEZONE for an IANA zone, listing the offset in force at the start of
+// the window and every change within it (found hourly, then to the minute)
+function vtimezone(zone: string, from: DateTime, to: DateTime): string[] {
+  const offsetAt = (ms: number) => DateTime.fromMillis(ms, { zone }).offset;
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${zone}`];
+  // DTSTART is the onset in local time as it was before the change
+  const component = (startMs: number, offsetFrom: number, offsetTo: number) => {
+    const kind = offsetTo > offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${localStamp(DateTime.fromMillis(startMs, { zone: FixedOffsetZone.instance(offsetFrom) }))}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`,
+    );
+  };
+  let offset = offsetAt(from.toMillis());
+  component(0, offset, offset);
+  const hour = 3600000;
+  for (let t = from.toMillis(); t < to.toMillis(); t += hour) {
+    const next = offsetAt(t + hour);
+    if (next === offset) continue;
+    let lo = t;
+    let hi = t + hour;
+    while (hi - lo > 60000) {
+      const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+      if (offsetAt(mid) === offset) lo = mid;
+      else hi = mid;
+    }
+    component(hi, offset, next);
+    offset = next;
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+export function itineraryToIcs(report: ItineraryReport, now: Date = new Date()): string {
+  const stamp = utcStamp(DateTime.fromJSDate(now));
+  const uid = (suffix: string) => `${utcStamp(report.departure)}-${suffix}@helioroute`;
+  const windowStart = report.departure.minus({ hours: TZ_MARGIN_HOURS });
+  const windowEnd = report.arrival.plus({ hours: TZ_MARGIN_HOURS });
+  const zones = [...new Set(report.legs.flatMap(leg => [leg.source.timezone, leg.destination.timezone]))];
+
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  for (const zone of zones) lines.push(...vtimezone(zone, windowStart, windowEnd));
+
+  report.legs.forEach((leg, i) => {
+    const description = [
+      `Helio Side: ${leg.recommendation}`,
+      ...(leg.seat ? [leg.seat.text] : []),
+      leg.summary,
+      ...leg.dstWarnings,
+    ].join('\n');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uid(`leg${i + 1}`)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=${leg.source.timezone}:${localStamp(leg.departure.setZone(leg.source.timezone))}`,
+      `DTEND;TZID=${leg.destination.timezone}:${localStamp(leg.arrival.setZone(leg.destination.timezone))}`,
+      `SUMMARY:${escapeText(`Flight ${leg.source.iata} → ${leg.destination.iata} · sit ${leg.seat ? `${leg.seat.side.toLowerCase()} (${leg.seat.seat})` : leg.recommendation}`)}`,
+      `LOCATION:${escapeText(`${leg.source.name} (${leg.source.iata})`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      'END:VEVENT',
+    );
+  });
+
+  report.events.forEach((ev, i) => {
+    const start = DateTime.fromJSDate(ev.time);
+    const label = ev.type === 'sunrise' ? 'Sunrise' : 'Sunset';
+    const where = ev.phase === 'ground'
+      ? `on the ground at ${report.layovers[ev.leg]?.airport.iata ?? report.legs[ev.leg].destination.iata}`
+      : ev.position ? describeSide(ev.position) : '';
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uid(`sun${i + 1}`)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${utcStamp(start)}`,
+      `DTEND:${utcStamp(start.plus({ minutes: SUN_EVENT_MINUTES }))}`,
+      `SUMMARY:${escapeText(`${label} ${where}`)}`,
+      `DESCRIPTION:${escapeText(`${label} at ${formatCoordinates(ev.lat, ev.lon)}, sun azimuth ${ev.azimuth.toFixed(0)}°`)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
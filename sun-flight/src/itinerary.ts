@@ -0,0 +1,203 @@
+import { DateTime } from 'luxon';
+import SunCalc from 'suncalc';
+import { classifySide, getVisibleSunAltitude, type SunSide } from './sunUtils';
+import { bisectTime } from './routeSampler';
+import { analyzeFlight, type FlightInput, type FlightSunReport, type SunEvent, type SunSample } from './flightAnalysis';
+import type { SeatGoal } from './exposure';
+import type { Airport } from './airports';
+
+export interface LegInput extends Omit<FlightInput, 'departure' | 'intervalMinutes' | 'renderSamples' | 'goal'> {
+  departure?: string; // local ISO time at the leg's source; required for the first leg
+  layoverHours?: number; // ground time after the previous leg, used when departure is omitted
+}
+
+export interface Layover {
+  airport: Airport;
+  start: DateTime;
+  end: DateTime;
+  hours: number;
+}
+
+export type JourneyPhase = 'flight' | 'ground';
+
+// A point on the whole-journey timeline. Ground samples have no heading, so
+// they carry no side either.
+export interface JourneySample extends Omit<SunSample, 'heading' | 'relativeAngle' | 'side'> {
+  leg: number; // leg index; ground samples belong to the leg that just landed
+  phase: JourneyPhase;
+  heading?: number;
+  relativeAngle?: number;
+  side?: SunSide;
+}
+
+export interface JourneyEvent extends Omit<SunEvent, 'position'> {
+  leg: number;
+  phase: JourneyPhase;
+  position?: SunSide;
+}
+
+export interface ItineraryOptions {
+  intervalMinutes?: number; // max spacing of analysis samples in flight; also the ground sample spacing
+  renderSamples?: number; // timeline samples per leg
+  goal?: SeatGoal;
+}
+
+export interface ItineraryReport {
+  legs: FlightSunReport[];
+  layovers: Layover[]; // layovers[i] sits between legs[i] and legs[i + 1]
+  departure: DateTime;
+  arrival: DateTime;
+  samples: JourneySample[]; // each leg's render samples plus ground samples, for drawing
+  events: JourneyEvent[];
+  dstWarnings: string[];
+}
+
+const GROUND_INTERVAL_MINUTES = 10;
+
+// Sun position for a stationary observer at an airport
+function groundSample(airport: Airport, time: Date, leg: number): JourneySample {
+  const sun = SunCalc.getPosition(time, airport.lat, airport.lon);
+  const altitude = (sun.altitude * 180) / Math.PI;
+  return {
+    time,
+    lat: airport.lat,
+    lon: airport.lon,
+    azimuth: (sun.azimuth * 180) / Math.PI + 180,
+    altitude,
+    horizonAltitude: getVisibleSunAltitude(altitude),
+    aircraftAltitude: 0,
+    leg,
+    phase: 'ground',
+  };
+}
+
+// Sun positions at the connection airport, strictly between landing and the
+// next takeoff
+function sampleGround(layover: Layover, leg: number, intervalMinutes: number): JourneySample[] {
+  const samples: JourneySample[] = [];
+  const step = intervalMinutes * 60 * 1000;
+  for (let t = layover.start.toMillis() + step; t < layover.end.toMillis(); t += step) {
+    samples.push(groundSample(layover.airport, new Date(t), leg));
+  }
+  return samples;
+}
+
+// Sunrise/sunset while waiting on the ground. When the airport observer's sun
+// crosses the horizon within the bracket the time is found by bisection;
+// otherwise the crossing comes from the change of observer at landing or
+// takeoff and is interpolated linearly.
+function detectGroundEvents(samples: JourneySample[], layovers: Layover[]): JourneyEvent[] {
+  const events: JourneyEvent[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const prev = samples[i - 1];
+    const p = samples[i];
+    if (p.phase === 'flight' && prev.phase === 'flight' && p.leg === prev.leg) continue;
+    const rising = prev.horizonAltitude < 0 && p.horizonAltitude >= 0;
+    const setting = prev.horizonAltitude >= 0 && p.horizonAltitude < 0;
+    if (!rising && !setting) continue;
+    const leg = p.phase === 'ground' ? p.leg : prev.leg;
+    const { airport } = layovers[leg];
+    const up = (t: number) => groundSample(airport, new Date(t), leg).horizonAltitude >= 0;
+    let time: Date;
+    if (up(prev.time.getTime()) === !rising && up(p.time.getTime()) === rising) {
+      time = new Date(bisectTime(prev.time.getTime(), p.time.getTime(), t => up(t) === rising));
+    } else {
+      const frac = prev.horizonAltitude / (prev.horizonAltitude - p.horizonAltitude);
+      time = new Date(prev.time.getTime() + frac * (p.time.getTime() - prev.time.getTime()));
+    }
+    events.push({ type: rising ? 'sunrise' : 'sunset', time, lat: p.lat, lon: p.lon, azimuth: p.azimuth, leg, phase: 'ground' });
+  }
+  return events;
+}
+
+// Analyzes an ordered list of legs as one journey. Each leg gets its own seat
+// recommendation; the combined samples and events also cover ground time at
+// each connection. Throws if a leg departs before the previous one lands.
+export function analyzeItinerary(legInputs: LegInput[], options: ItineraryOptions = {}): ItineraryReport {
+  const { intervalMinutes, renderSamples, goal } = options;
+  if (legInputs.length === 0) throw new Error('Itinerary has no legs.');
+
+  const legs: FlightSunReport[] = [];
+  const layovers: Layover[] = [];
+  legInputs.forEach((input, i) => {
+    const prev = legs[i - 1];
+    let departure = input.departure;
+    if (prev && !departure) {
+      const layoverHours = input.layoverHours ?? 0;
+      if (!Number.isFinite(layoverHours) || layoverHours < 0) throw new Error(`Invalid layover before leg ${i + 1}.`);
+      departure = prev.arrival.plus({ hours: layoverHours }).setZone(input.source.timezone).toISO({ includeOffset: false }) ?? undefined;
+    }
+    if (!departure) throw new Error(`Leg ${i + 1} has no departure time.`);
+
+    const report = analyzeFlight({ ...input, departure, intervalMinutes, renderSamples, goal });
+    if (prev) {
+      if (report.departure < prev.arrival) throw new Error(`Leg ${i + 1} departs before leg ${i} arrives.`);
+      layovers.push({
+        airport: prev.destination,
+        start: prev.arrival,
+        end: report.departure,
+        hours: report.departure.diff(prev.arrival, 'hours').hours,
+      });
+    }
+    legs.push(report);
+  });
+
+  const samples: JourneySample[] = [];
+  legs.forEach((leg, i) => {
+    samples.push(...leg.renderSamples.map(s => ({ ...s, leg: i, phase: 'flight' as const })));
+    if (layovers[i]) samples.push(...sampleGround(layovers[i], i, intervalMinutes ?? GROUND_INTERVAL_MINUTES));
+  });
+
+  const events: JourneyEvent[] = [
+    ...legs.flatMap((leg, i) => leg.events.map(ev => ({ ...ev, leg: i, phase: 'flight' as const }))),
+    ...detectGroundEvents(samples, layovers),
+  ].sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  return {
+    legs,
+    layovers,
+    departure: legs[0].departure,
+    arrival: legs[legs.length - 1].arrival,
+    samples,
+    events,
+    dstWarnings: [...new Set(legs.flatMap(leg => leg.dstWarnings))],
+  };
+}
+
+// Signed shortest turn from a to b in degrees, in (-180, 180]
+const angleDelta = (a: number, b: number) => ((b - a + 540) % 360) - 180;
+const lerp = (a: number, b: number, frac: number) => a + frac * (b - a);
+const lerpAngle = (a: number, b: number, frac: number) => (a + frac * angleDelta(a, b) + 360) % 360;
+
+// Journey state at any time, interpolated between the two surrounding
+// timeline samples (clamped to the ends) so playback moves smoothly. Longitude,
+// azimuth and heading take the short way round; the side follows from the
+// interpolated sun azimuth and heading.
+export function journeySampleAt(samples: JourneySample[], time: Date): JourneySample {
+  const t = time.getTime();
+  const hi = samples.findIndex(s => s.time.getTime() >= t);
+  if (hi < 0) return samples[samples.length - 1];
+  if (hi === 0 || samples[hi].time.getTime() === t) return samples[hi];
+  const a = samples[hi - 1];
+  const b = samples[hi];
+  const frac = (t - a.time.getTime()) / (b.time.getTime() - a.time.getTime());
+  const nearest = frac < 0.5 ? a : b;
+  const lon = lerpAngle(a.lon + 180, b.lon + 180, frac) - 180;
+  const azimuth = lerpAngle(a.azimuth, b.azimuth, frac);
+  const heading = a.heading !== undefined && b.heading !== undefined ? lerpAngle(a.heading, b.heading, frac) : nearest.heading;
+  const relativeAngle = heading !== undefined ? (azimuth - heading + 360) % 360 : undefined;
+  return {
+    time,
+    lat: lerp(a.lat, b.lat, frac),
+    lon,
+    azimuth,
+    altitude: lerp(a.altitude, b.altitude, frac),
+    horizonAltitude: lerp(a.horizonAltitude, b.horizonAltitude, frac),
+    aircraftAltitude: lerp(a.aircraftAltitude, b.aircraftAltitude, frac),
+    leg: nearest.leg,
+    phase: nearest.phase,
+    heading,
+    relativeAngle,
+    side: relativeAngle !== undefined ? classifySide(relativeAngle) : undefined,
+  };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { findAirport } from './airports'
+import { analyzeFlight } from './flightAnalysis'
+
+const analyze = (from: string, to: string, departure: string, durationHours: number) =>
+  analyzeFlight({ source: findAirport(from)!, destination: findAirport(to)!, departure, durationHours });
+
+describe('detectLightWindows', () => {
+  it('ends morning civil twilight at the reported sunrise', () => {
+    const report = analyze('DEL', 'BLR', '2025-06-22T05:00', 2.75);
+    const sunrise = report.events.find(e => e.type === 'sunrise')!;
+    const civil = report.lightWindows.find(w => w.phase === 'civil' && w.morning)!;
+    expect(civil.end.getTime()).toBe(sunrise.time.getTime());
+    // Blue hour hands over to golden hour in between, at a single moment
+    const blue = report.lightWindows.find(w => w.phase === 'blue')!;
+    const golden = report.lightWindows.find(w => w.phase === 'golden')!;
+    expect(blue.end.getTime()).toBe(golden.start.getTime());
+    expect(golden.start.getTime()).toBeLessThan(sunrise.time.getTime());
+  });
+
+  it('starts evening civil twilight at the reported sunset', () => {
+    const report = analyze('JFK', 'LHR', '2024-06-01T18:00', 7);
+    const sunset = report.events.find(e => e.type === 'sunset')!;
+    const civil = report.lightWindows.find(w => w.phase === 'civil' && !w.morning)!;
+    expect(civil.start.getTime()).toBe(sunset.time.getTime());
+  });
+});
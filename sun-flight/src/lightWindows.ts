@@ -0,0 +1,113 @@
+import type { SunSide } from './sunUtils';
+import type { SunSample } from './flightAnalysis';
+
+export type LightPhase = 'golden' | 'blue' | 'civil' | 'nautical' | 'astronomical';
+
+export interface LightPhaseDefinition {
+  label: string;
+  min: number; // deg, sun's visible altitude above the cabin horizon (SunSample.horizonAltitude)
+  max: number;
+  color: string; // route highlight colour
+}
+
+// Photographers' golden and blue hours overlap the civil and nautical twilight
+// bands, so a sample can sit in several windows at once
+export const LIGHT_PHASES: Record<LightPhase, LightPhaseDefinition> = {
+  golden: { label: 'Golden hour', min: -4, max: 6, color: '#fbbf24' },
+  blue: { label: 'Blue hour', min: -6, max: -4, color: '#3b82f6' },
+  civil: { label: 'Civil twilight', min: -6, max: 0, color: '#f97316' },
+  nautical: { label: 'Nautical twilight', min: -12, max: -6, color: '#6366f1' },
+  astronomical: { label: 'Astronomical twilight', min: -18, max: -12, color: '#581c87' },
+};
+
+export interface LightWindow {
+  phase: LightPhase;
+  start: Date;
+  end: Date;
+  morning: boolean; // true while the sun is climbing
+  side: SunSide; // where the glow is for most of the window
+  azimuth: number; // sun azimuth mid-window
+  path: [number, number][]; // route points covered by the window
+  openStart: boolean; // already under way at the first sample
+  openEnd: boolean; // still under way at the last sample
+}
+
+// Linear interpolation of time and position at fraction t between two samples
+function between(a: SunSample, b: SunSample, t: number): { time: Date; point: [number, number] } {
+  let dLon = b.lon - a.lon;
+  if (dLon > 180) dLon -= 360;
+  if (dLon < -180) dLon += 360;
+  let lon = a.lon + t * dLon;
+  if (lon > 180) lon -= 360;
+  if (lon < -180) lon += 360;
+  return {
+    time: new Date(a.time.getTime() + t * (b.time.getTime() - a.time.getTime())),
+    point: [a.lat + t * (b.lat - a.lat), lon],
+  };
+}
+
+// Fraction between a and b where the altitude crosses the level
+function crossing(a: number, b: number, level: number): number {
+  return a === b ? 0 : (level - a) / (b - a);
+}
+
+// Finds the stretches of the flight in each light phase, with boundary times
+// interpolated between samples. Phases are measured on the same visible
+// altitude (upper limb, refraction and dip) as sunrise and sunset, so civil
+// twilight ends exactly at the reported sunrise.
+export function detectLightWindows(samples: SunSample[]): LightWindow[] {
+  const windows: LightWindow[] = [];
+  const altitudes = samples.map(s => s.horizonAltitude);
+  for (const [phase, { min, max }] of Object.entries(LIGHT_PHASES) as [LightPhase, LightPhaseDefinition][]) {
+    const inside = (alt: number) => alt >= min && alt < max;
+    let i = 0;
+    while (i < samples.length) {
+      if (!inside(altitudes[i])) { i++; continue; }
+      const first = i;
+      while (i < samples.length && inside(altitudes[i])) i++;
+      const last = i - 1;
+
+      let start = samples[first].time;
+      const path: [number, number][] = [];
+      if (first > 0) {
+        const prevAlt = altitudes[first - 1];
+        const edge = between(samples[first - 1], samples[first], crossing(prevAlt, altitudes[first], prevAlt < min ? min : max));
+        start = edge.time;
+        path.push(edge.point);
+      }
+      for (let k = first; k <= last; k++) path.push([samples[k].lat, samples[k].lon]);
+      let end = samples[last].time;
+      if (last < samples.length - 1) {
+        const nextAlt = altitudes[last + 1];
+        const edge = between(samples[last], samples[last + 1], crossing(altitudes[last], nextAlt, nextAlt < min ? min : max));
+        end = edge.time;
+        path.push(edge.point);
+      }
+
+      // The side the sun is on for longest; samples aren't evenly spaced, so
+      // each holds until the next one (or the window's end)
+      const durations: Record<SunSide, number> = { Left: 0, Right: 0, Ahead: 0, Behind: 0 };
+      durations[samples[first].side] += samples[first].time.getTime() - start.getTime();
+      for (let k = first; k <= last; k++) {
+        const until = k < last ? samples[k + 1].time : end;
+        durations[samples[k].side] += until.getTime() - samples[k].time.getTime();
+      }
+      const side = (Object.keys(durations) as SunSide[]).reduce((a, b) => (durations[b] > durations[a] ? b : a), samples[first].side);
+      const mid = samples[Math.floor((first + last) / 2)];
+      const rising = altitudes[Math.min(last + 1, samples.length - 1)] > altitudes[Math.max(first - 1, 0)];
+
+      windows.push({
+        phase,
+        start,
+        end,
+        morning: rising,
+        side,
+        azimuth: mid.azimuth,
+        path,
+        openStart: first === 0,
+        openEnd: last === samples.length - 1,
+      });
+    }
+  }
+  return windows.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
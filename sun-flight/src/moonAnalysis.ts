@@ -0,0 +1,112 @@
+import SunCalc from 'suncalc';
+import { classifySide, getHorizonDip, type SunSide } from './sunUtils';
+import type { SunSample } from './flightAnalysis';
+
+// SunCalc's moon altitude already includes refraction; moonrise/moonset use
+// the same 0.133° offset for parallax and semidiameter as SunCalc.getMoonTimes
+const MOON_HORIZON_OFFSET_DEG = 0.133;
+
+export interface MoonSample {
+  time: Date;
+  lat: number;
+  lon: number;
+  azimuth: number; // deg, clockwise from north
+  altitude: number; // deg, refracted altitude above the horizontal
+  horizonAltitude: number; // deg above the horizon visible from the cabin
+  relativeAngle?: number; // deg relative to the nose; absent without a heading
+  side?: SunSide;
+  illumination: number; // 0..1 illuminated fraction
+}
+
+export interface MoonEvent {
+  type: 'moonrise' | 'moonset';
+  time: Date;
+  lat: number;
+  lon: number;
+  azimuth: number;
+  position?: SunSide;
+}
+
+export interface MoonReport {
+  samples: MoonSample[];
+  events: MoonEvent[];
+  illumination: number; // at mid-flight
+  phaseName: string;
+  visible: number; // whole percent of the flight with the moon in view
+  left: number; // whole percent of that time on each side
+  right: number;
+}
+
+// Names the lunar phase from SunCalc's 0..1 phase value (0 = new, 0.5 = full)
+export function moonPhaseName(phase: number): string {
+  if (phase < 0.03 || phase > 0.97) return 'New Moon';
+  if (phase < 0.22) return 'Waxing Crescent';
+  if (phase < 0.28) return 'First Quarter';
+  if (phase < 0.47) return 'Waxing Gibbous';
+  if (phase < 0.53) return 'Full Moon';
+  if (phase < 0.72) return 'Waning Gibbous';
+  if (phase < 0.78) return 'Last Quarter';
+  return 'Waning Crescent';
+}
+
+// Moon position for an observer at a sample point; pass the aircraft heading
+// and height to get the side and the cabin-horizon altitude
+export function moonAt(time: Date, lat: number, lon: number, heading?: number, heightM = 0): MoonSample {
+  const pos = SunCalc.getMoonPosition(time, lat, lon);
+  const azimuth = (pos.azimuth * 180) / Math.PI + 180;
+  const altitude = (pos.altitude * 180) / Math.PI;
+  const relativeAngle = heading === undefined ? undefined : (azimuth - heading + 360) % 360;
+  return {
+    time,
+    lat,
+    lon,
+    azimuth,
+    altitude,
+    horizonAltitude: altitude - MOON_HORIZON_OFFSET_DEG + getHorizonDip(heightM),
+    relativeAngle,
+    side: relativeAngle === undefined ? undefined : classifySide(relativeAngle),
+    illumination: SunCalc.getMoonIllumination(time).fraction,
+  };
+}
+
+// Tracks the moon along the same samples as the sun analysis
+export function analyzeMoon(sunSamples: SunSample[]): MoonReport {
+  const samples = sunSamples.map(s => moonAt(s.time, s.lat, s.lon, s.heading, s.aircraftAltitude));
+
+  const events: MoonEvent[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const prev = samples[i - 1];
+    const p = samples[i];
+    const rising = prev.horizonAltitude < 0 && p.horizonAltitude >= 0;
+    const setting = prev.horizonAltitude >= 0 && p.horizonAltitude < 0;
+    if (!rising && !setting) continue;
+    const frac = prev.horizonAltitude / (prev.horizonAltitude - p.horizonAltitude);
+    const time = new Date(prev.time.getTime() + frac * (p.time.getTime() - prev.time.getTime()));
+    events.push({ type: rising ? 'moonrise' : 'moonset', time, lat: p.lat, lon: p.lon, azimuth: p.azimuth, position: p.side });
+  }
+
+  // Weighted by interval length, as the sun breakdown is: the samples bunch
+  // up around sun events
+  let totalHours = 0, upHours = 0, leftHours = 0, rightHours = 0;
+  for (let i = 0; i < samples.length - 1; i++) {
+    const interval = (samples[i + 1].time.getTime() - samples[i].time.getTime()) / 3600000;
+    totalHours += interval;
+    if (samples[i].horizonAltitude < 0) continue;
+    upHours += interval;
+    if (samples[i].side === 'Left') leftHours += interval;
+    else if (samples[i].side === 'Right') rightHours += interval;
+  }
+  const pct = (n: number, total: number) => (total ? Math.round((n / total) * 100) : 0);
+
+  const mid = sunSamples[Math.floor(sunSamples.length / 2)]?.time ?? new Date();
+  const illumination = SunCalc.getMoonIllumination(mid);
+  return {
+    samples,
+    events,
+    illumination: illumination.fraction,
+    phaseName: moonPhaseName(illumination.phase),
+    visible: pct(upHours, totalHours),
+    left: pct(leftHours, upHours),
+    right: pct(rightHours, upHours),
+  };
+}
@@ -0,0 +1,68 @@
+// Minimal PDF writer: a single page showing one JPEG image, scaled to fit
+// inside the page margins. The image is embedded as-is (DCTDecode), so no
+// PDF library is needed.
+
+export interface PdfImage {
+  jpeg: Uint8Array;
+  width: number; // px
+  height: number; // px
+}
+
+// A4 landscape, in points
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 28;
+
+export function imageToPdf(image: PdfImage, title = ''): Uint8Array {
+  const encoder = new TextEncoder();
+  const scale = Math.min((PAGE_WIDTH - 2 * MARGIN) / image.width, (PAGE_HEIGHT - 2 * MARGIN) / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  const x = (PAGE_WIDTH - w) / 2;
+  const y = (PAGE_HEIGHT - h) / 2;
+  const content = `q ${w.toFixed(2)} 0 0 ${h.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm /Im0 Do Q`;
+  // PDF strings are Latin-1; anything else in the title is dropped
+  const pdfTitle = title.replace(/[^\x20-\x7e]/g, '').replace(/[\\()]/g, '\\$&');
+
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>\nstream\n`,
+      image.jpeg,
+      '\nendstream',
+    ],
+    [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+    [`<< /Title (${pdfTitle}) /Producer (HelioRoute) >>`],
+  ];
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  // The binary comment line tells readers the file holds binary data
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  const offsets: number[] = [];
+  objects.forEach((parts, i) => {
+    offsets.push(length);
+    write(`${i + 1} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+  });
+  const xref = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  for (const offset of offsets) write(`${String(offset).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  const out = new Uint8Array(length);
+  let pos = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, pos);
+    pos += chunk.length;
+  }
+  return out;
+}
@@ -0,0 +1,243 @@
+import { DateTime } from 'luxon';
+import { describeSide, getNightPolygon } from './sunUtils';
+import type { ItineraryReport } from './itinerary';
+import worldLand from './worldLand.json';
+
+// Self-contained SVG summary card of an analysis, for saving as an image or
+// printing: a vector map of the route over the coastlines with the night
+// side at departure, the recommended side and breakdown per leg, a sun-altitude timeline and the
+// sunrise/sunset list. Everything is drawn from the report, so there are no
+// map tiles to fetch.
+
+export const CARD_WIDTH = 1200;
+export const CARD_HEIGHT = 800;
+
+const MAP = { x: 40, y: 120, width: 640, height: 400 };
+const TIMELINE = { x: 40, y: 580, width: 640, height: 160 };
+const PANEL_X = 720;
+const FONT = 'system-ui, -apple-system, Segoe UI, sans-serif';
+const MAX_EVENTS = 8;
+
+const COLORS = {
+  background: '#0f172a',
+  panel: '#1e293b',
+  grid: '#334155',
+  land: '#334155',
+  coast: '#475569',
+  text: '#e2e8f0',
+  muted: '#94a3b8',
+  amber: '#fbbf24',
+  sky: '#38bdf8',
+  left: '#60a5fa',
+  right: '#4ade80',
+  night: '#020617',
+};
+
+// Coarse land outlines, [lon, lat] rings per landmass (the first ring the
+// coast, any others lakes)
+const LAND = worldLand.features.map(feature => feature.geometry.coordinates as [number, number][][]);
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const text = (x: number, y: number, content: string, attrs = '') =>
+  `<text x="${x.toFixed(1)}" y="${y.toFixed(1)}" ${attrs}>${escapeXml(content)}</text>`;
+
+// The longitude a whole number of turns from lon that is closest to ref
+function near(lon: number, ref: number): number {
+  return lon - Math.round((lon - ref) / 360) * 360;
+}
+
+// Keeps a path continuous across the antimeridian, e.g. 179 → -179 becomes 179 → 181
+function unwrap(points: [number, number][]): [number, number][] {
+  const out: [number, number][] = [];
+  for (const [lat, lon] of points) {
+    const prev = out[out.length - 1];
+    out.push([lat, prev ? near(lon, prev[1]) : lon]);
+  }
+  return out;
+}
+
+function renderMap(report: ItineraryReport): string {
+  const route = unwrap(report.legs.flatMap(leg => leg.path.flat()));
+  const stops = [report.legs[0].source, ...report.legs.map(leg => leg.destination)];
+  const lats = route.map(p => p[0]);
+  const lons = route.map(p => p[1]);
+  const midLon = (Math.min(...lons) + Math.max(...lons)) / 2;
+  // Equirectangular view around the route, padded and stretched to the map's aspect ratio
+  let minLat = Math.min(...lats) - 5, maxLat = Math.max(...lats) + 5;
+  let minLon = Math.min(...lons) - 8, maxLon = Math.max(...lons) + 8;
+  const aspect = MAP.width / MAP.height;
+  if ((maxLon - minLon) / (maxLat - minLat) > aspect) {
+    const extra = (maxLon - minLon) / aspect - (maxLat - minLat);
+    minLat -= extra / 2;
+    maxLat += extra / 2;
+  } else {
+    const extra = (maxLat - minLat) * aspect - (maxLon - minLon);
+    minLon -= extra / 2;
+    maxLon += extra / 2;
+  }
+  const x = (lon: number) => MAP.x + ((lon - minLon) / (maxLon - minLon)) * MAP.width;
+  const y = (lat: number) => MAP.y + ((maxLat - lat) / (maxLat - minLat)) * MAP.height;
+  const toPoints = (pts: [number, number][]) => pts.map(([lat, lon]) => `${x(lon).toFixed(1)},${y(lat).toFixed(1)}`).join(' ');
+
+  const parts: string[] = [
+    '<clipPath id="map-clip"><rect x="' + MAP.x + '" y="' + MAP.y + '" width="' + MAP.width + '" height="' + MAP.height + '" rx="12"/></clipPath>',
+    `<rect x="${MAP.x}" y="${MAP.y}" width="${MAP.width}" height="${MAP.height}" rx="12" fill="${COLORS.panel}"/>`,
+    '<g clip-path="url(#map-clip)">',
+  ];
+  // Graticule every 10° (30° for very wide views)
+  const step = maxLon - minLon > 120 ? 30 : 10;
+  for (let lon = Math.ceil(minLon / step) * step; lon <= maxLon; lon += step) {
+    parts.push(`<line x1="${x(lon).toFixed(1)}" y1="${MAP.y}" x2="${x(lon).toFixed(1)}" y2="${MAP.y + MAP.height}" stroke="${COLORS.grid}" stroke-width="1"/>`);
+  }
+  for (let lat = Math.ceil(minLat / step) * step; lat <= maxLat; lat += step) {
+    parts.push(`<line x1="${MAP.x}" y1="${y(lat).toFixed(1)}" x2="${MAP.x + MAP.width}" y2="${y(lat).toFixed(1)}" stroke="${COLORS.grid}" stroke-width="1"/>`);
+  }
+  // Land, a turn either way too so it lines up with an unwrapped route
+  const ring = (pts: [number, number][], shift: number) =>
+    'M' + pts.map(([lon, lat]) => `${x(lon + shift).toFixed(1)},${y(lat).toFixed(1)}`).join('L') + 'Z';
+  for (const shift of [-360, 0, 360]) {
+    const d = LAND.map(rings => rings.map(r => ring(r, shift)).join('')).join('');
+    parts.push(`<path d="${d}" fill="${COLORS.land}" fill-rule="evenodd" stroke="${COLORS.coast}" stroke-width="1" stroke-linejoin="round"/>`);
+  }
+  // Night side at departure, repeated a turn either way for unwrapped views
+  const night = getNightPolygon(report.departure.toJSDate());
+  for (const shift of [-360, 0, 360]) {
+    parts.push(`<polygon points="${toPoints(night.map(([lat, lon]) => [lat, lon + shift]))}" fill="${COLORS.night}" fill-opacity="0.45"/>`);
+  }
+  parts.push(`<polyline points="${toPoints(route)}" fill="none" stroke="${COLORS.amber}" stroke-width="3" stroke-linejoin="round"/>`);
+  for (const ev of report.events) {
+    const lon = near(ev.lon, midLon);
+    parts.push(`<circle cx="${x(lon).toFixed(1)}" cy="${y(ev.lat).toFixed(1)}" r="6" fill="${ev.type === 'sunrise' ? COLORS.amber : COLORS.sky}" stroke="${COLORS.background}" stroke-width="2"/>`);
+  }
+  stops.forEach(airport => {
+    const lon = near(airport.lon, midLon);
+    parts.push(
+      `<circle cx="${x(lon).toFixed(1)}" cy="${y(airport.lat).toFixed(1)}" r="5" fill="${COLORS.text}"/>`,
+      text(x(lon) + 8, y(airport.lat) - 8, airport.iata, `fill="${COLORS.text}" font-size="16" font-weight="700"`),
+    );
+  });
+  parts.push('</g>');
+  parts.push(text(MAP.x + 12, MAP.y + MAP.height - 12, `Night side at departure · ${step}° grid`, `fill="${COLORS.muted}" font-size="12"`));
+  return parts.join('\n');
+}
+
+function renderTimeline(report: ItineraryReport): string {
+  const { samples } = report;
+  const t0 = samples[0].time.getTime();
+  const t1 = samples[samples.length - 1].time.getTime();
+  const alts = samples.map(s => s.horizonAltitude);
+  const maxAlt = Math.max(10, ...alts.map(a => Math.ceil(a / 10) * 10));
+  const minAlt = Math.min(-10, ...alts.map(a => Math.floor(a / 10) * 10));
+  const x = (t: number) => TIMELINE.x + ((t - t0) / Math.max(1, t1 - t0)) * TIMELINE.width;
+  const y = (alt: number) => TIMELINE.y + ((maxAlt - alt) / (maxAlt - minAlt)) * TIMELINE.height;
+  const line = samples.map(s => `${x(s.time.getTime()).toFixed(1)},${y(s.horizonAltitude).toFixed(1)}`).join(' ');
+  const zero = y(0);
+  const parts = [
+    text(TIMELINE.x, TIMELINE.y - 14, 'Sun above the cabin horizon', `fill="${COLORS.muted}" font-size="14" font-weight="600"`),
+    `<rect x="${TIMELINE.x}" y="${TIMELINE.y}" width="${TIMELINE.width}" height="${TIMELINE.height}" rx="8" fill="${COLORS.panel}"/>`,
+    `<clipPath id="day-clip"><rect x="${TIMELINE.x}" y="${TIMELINE.y}" width="${TIMELINE.width}" height="${(zero - TIMELINE.y).toFixed(1)}"/></clipPath>`,
+    `<polygon points="${x(t0).toFixed(1)},${zero.toFixed(1)} ${line} ${x(t1).toFixed(1)},${zero.toFixed(1)}" fill="${COLORS.amber}" fill-opacity="0.3" clip-path="url(#day-clip)"/>`,
+    `<line x1="${TIMELINE.x}" y1="${zero.toFixed(1)}" x2="${TIMELINE.x + TIMELINE.width}" y2="${zero.toFixed(1)}" stroke="${COLORS.muted}" stroke-dasharray="4 4"/>`,
+    `<polyline points="${line}" fill="none" stroke="${COLORS.amber}" stroke-width="2"/>`,
+    text(TIMELINE.x + 6, y(maxAlt) + 14, `${maxAlt}°`, `fill="${COLORS.muted}" font-size="11"`),
+    text(TIMELINE.x + 6, zero - 4, '0°', `fill="${COLORS.muted}" font-size="11"`),
+    text(TIMELINE.x + 6, y(minAlt) - 4, `${minAlt}°`, `fill="${COLORS.muted}" font-size="11"`),
+  ];
+  // Landings and takeoffs between legs
+  report.layovers.forEach(layover => {
+    for (const t of [layover.start.toMillis(), layover.end.toMillis()]) {
+      parts.push(`<line x1="${x(t).toFixed(1)}" y1="${TIMELINE.y}" x2="${x(t).toFixed(1)}" y2="${TIMELINE.y + TIMELINE.height}" stroke="${COLORS.grid}" stroke-width="2"/>`);
+    }
+  });
+  for (const ev of report.events) {
+    const ex = x(ev.time.getTime());
+    parts.push(`<circle cx="${ex.toFixed(1)}" cy="${zero.toFixed(1)}" r="5" fill="${ev.type === 'sunrise' ? COLORS.amber : COLORS.sky}"/>`);
+  }
+  const zone = report.legs[0].source.timezone;
+  parts.push(
+    text(TIMELINE.x, TIMELINE.y + TIMELINE.height + 20, report.departure.toFormat('HH:mm ZZZZ'), `fill="${COLORS.muted}" font-size="12"`),
+    text(TIMELINE.x + TIMELINE.width, TIMELINE.y + TIMELINE.height + 20, report.arrival.toFormat('HH:mm ZZZZ'), `fill="${COLORS.muted}" font-size="12" text-anchor="end"`),
+    text(TIMELINE.x + TIMELINE.width / 2, TIMELINE.y + TIMELINE.height + 20, `${((t1 - t0) / 3600000).toFixed(1)} h (${DateTime.fromMillis(t0, { zone }).toFormat('dd LLL yyyy')})`, `fill="${COLORS.muted}" font-size="12" text-anchor="middle"`),
+  );
+  return parts.join('\n');
+}
+
+function renderPanel(report: ItineraryReport): string {
+  const parts: string[] = [];
+  const multi = report.legs.length > 1;
+  let y = MAP.y + 10;
+  const width = CARD_WIDTH - PANEL_X - 40;
+  for (const [i, leg] of report.legs.slice(0, 3).entries()) {
+    if (multi) {
+      parts.push(text(PANEL_X, y, `Leg ${i + 1} · ${leg.source.iata} → ${leg.destination.iata}`, `fill="${COLORS.muted}" font-size="14" font-weight="600"`));
+      y += 30;
+    } else {
+      parts.push(text(PANEL_X, y, 'Sit on the', `fill="${COLORS.muted}" font-size="16"`));
+      y += 40;
+    }
+    parts.push(text(PANEL_X, y, leg.recommendation, `fill="${COLORS.amber}" font-size="${multi ? 26 : 40}" font-weight="800"`));
+    y += multi ? 22 : 30;
+    if (leg.seat) {
+      parts.push(text(PANEL_X, y, leg.seat.text, `fill="${COLORS.text}" font-size="14" font-weight="600"`));
+      y += 24;
+    }
+    // Breakdown bar: share of sunlit time on each side
+    const b = leg.breakdown;
+    const segments: [number, string][] = [[b.left, COLORS.left], [b.right, COLORS.right], [b.ahead, COLORS.amber], [b.behind, COLORS.muted]];
+    let bx = PANEL_X;
+    parts.push(`<rect x="${PANEL_X}" y="${y}" width="${width}" height="10" rx="5" fill="${COLORS.grid}"/>`);
+    for (const [pct, color] of segments) {
+      const w = (pct / 100) * width;
+      if (w > 0) parts.push(`<rect x="${bx.toFixed(1)}" y="${y}" width="${w.toFixed(1)}" height="10" fill="${color}"/>`);
+      bx += w;
+    }
+    y += 28;
+    parts.push(text(PANEL_X, y, `Sun up ${b.visible}% · left ${b.left}% · right ${b.right}% · ahead ${b.ahead}% · behind ${b.behind}%`, `fill="${COLORS.muted}" font-size="13"`));
+    y += multi ? 34 : 44;
+  }
+  if (report.legs.length > 3) {
+    parts.push(text(PANEL_X, y, `+ ${report.legs.length - 3} more legs`, `fill="${COLORS.muted}" font-size="13"`));
+    y += 30;
+  }
+
+  y = Math.max(y, TIMELINE.y - 14);
+  parts.push(text(PANEL_X, y, 'Sunrise & sunset', `fill="${COLORS.muted}" font-size="14" font-weight="600"`));
+  y += 26;
+  if (report.events.length === 0) {
+    parts.push(text(PANEL_X, y, 'None along the way', `fill="${COLORS.text}" font-size="14"`));
+  }
+  const zone = report.legs[0].source.timezone;
+  for (const ev of report.events.slice(0, MAX_EVENTS)) {
+    const time = DateTime.fromJSDate(ev.time, { zone }).toFormat('HH:mm, dd LLL');
+    const where = ev.phase === 'ground' ? 'on the ground' : ev.position ? describeSide(ev.position) : '';
+    parts.push(
+      `<circle cx="${PANEL_X + 6}" cy="${y - 5}" r="5" fill="${ev.type === 'sunrise' ? COLORS.amber : COLORS.sky}"/>`,
+      text(PANEL_X + 20, y, `${ev.type === 'sunrise' ? 'Sunrise' : 'Sunset'} ${time} · ${where}`, `fill="${COLORS.text}" font-size="14"`),
+    );
+    y += 22;
+  }
+  if (report.events.length > MAX_EVENTS) {
+    parts.push(text(PANEL_X + 20, y, `+ ${report.events.length - MAX_EVENTS} more`, `fill="${COLORS.muted}" font-size="13"`));
+  }
+  return parts.join('\n');
+}
+
+export function renderResultCardSvg(report: ItineraryReport): string {
+  const stops = [report.legs[0].source, ...report.legs.map(leg => leg.destination)];
+  const title = stops.map(a => a.iata).join(' → ');
+  const cities = stops.map(a => a.city).join(' – ');
+  const times = `${report.departure.toFormat('ccc dd LLL yyyy, HH:mm ZZZZ')} → ${report.arrival.toFormat('HH:mm ZZZZ')}`;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}" font-family="${FONT}">`,
+    `<rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="${COLORS.background}"/>`,
+    text(40, 62, title, `fill="${COLORS.text}" font-size="36" font-weight="800"`),
+    text(40, 92, `${cities} · ${times}`, `fill="${COLORS.muted}" font-size="16"`),
+    text(CARD_WIDTH - 40, 62, '☀ HelioRoute', `fill="${COLORS.amber}" font-size="22" font-weight="700" text-anchor="end"`),
+    renderMap(report),
+    renderTimeline(report),
+    renderPanel(report),
+    '</svg>',
+  ].join('\n');
+}
@@ -0,0 +1,82 @@
+// Reads a flown route as [lat, lon] waypoints from one of three formats:
+//  - a plain list, one waypoint per line as "lat, lon" or "NAME lat lon"
+//    ('#' starts a comment)
+//  - GPX: track points, else route points, else waypoints
+//  - GeoJSON: a LineString or MultiLineString geometry, Feature or the first
+//    such feature in a FeatureCollection
+// Throws with a readable message when the text can't be used as a route.
+
+type LatLon = [number, number];
+
+function checkPoint(lat: number, lon: number, where: string): LatLon {
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    throw new Error(`Invalid coordinates ${where}.`);
+  }
+  return [lat, lon];
+}
+
+function checkRoute(points: LatLon[]): LatLon[] {
+  if (points.length < 2) throw new Error('A route needs at least two waypoints.');
+  return points;
+}
+
+export function parseWaypointList(text: string): LatLon[] {
+  const points: LatLon[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.replace(/#.*/, '').trim();
+    if (!line) return;
+    const numbers = line.split(/[\s,;]+/).filter(Boolean).map(Number).filter(n => !Number.isNaN(n));
+    if (numbers.length < 2) throw new Error(`Line ${i + 1}: expected a latitude and longitude.`);
+    const [lat, lon] = numbers.slice(-2);
+    points.push(checkPoint(lat, lon, `on line ${i + 1}`));
+  });
+  return checkRoute(points);
+}
+
+export function parseGpx(text: string): LatLon[] {
+  for (const tag of ['trkpt', 'rtept', 'wpt']) {
+    const points: LatLon[] = [];
+    for (const match of text.matchAll(new RegExp(`<${tag}\\b([^>]*)>`, 'g'))) {
+      const attr = (name: string) => Number(match[1].match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`))?.[1]);
+      points.push(checkPoint(attr('lat'), attr('lon'), `in GPX ${tag} ${points.length + 1}`));
+    }
+    if (points.length > 0) return checkRoute(points);
+  }
+  throw new Error('GPX file has no track, route or waypoints.');
+}
+
+export function parseGeoJsonRoute(text: string): LatLon[] {
+  let json: { type?: string; geometry?: unknown; features?: unknown[]; coordinates?: unknown };
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Route file is not valid JSON.');
+  }
+  const lines = (geometry: { type?: string; coordinates?: unknown } | null | undefined): number[][][] => {
+    if (geometry?.type === 'LineString') return [geometry.coordinates as number[][]];
+    if (geometry?.type === 'MultiLineString') return geometry.coordinates as number[][][];
+    return [];
+  };
+  let coords: number[][][] = [];
+  if (json.type === 'FeatureCollection') {
+    for (const feature of json.features ?? []) {
+      coords = lines((feature as { geometry?: { type?: string } }).geometry);
+      if (coords.length > 0) break;
+    }
+  } else if (json.type === 'Feature') {
+    coords = lines(json.geometry as { type?: string });
+  } else {
+    coords = lines(json);
+  }
+  if (coords.length === 0) throw new Error('GeoJSON has no LineString.');
+  // GeoJSON positions are [lon, lat]
+  return checkRoute(coords.flat().map(([lon, lat], i) => checkPoint(lat, lon, `at GeoJSON position ${i + 1}`)));
+}
+
+// Picks the format from the content, falling back to the plain list
+export function parseRouteFile(text: string): LatLon[] {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{')) return parseGeoJsonRoute(trimmed);
+  if (trimmed.startsWith('<')) return parseGpx(trimmed);
+  return parseWaypointList(text);
+}
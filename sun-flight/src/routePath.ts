@@ -0,0 +1,70 @@
+import { getGreatCircleDistance, getInitialBearing, interpolateGreatCircle } from './sunUtils';
+
+// A flown route as a polyline of [lat, lon] waypoints joined by great-circle
+// segments. A two-point path is the plain great circle between airports.
+export interface RoutePath {
+  points: [number, number][];
+  cumulativeKm: number[]; // distance from the first point to each point
+  totalKm: number;
+}
+
+// Waypoints closer than this to an airport are treated as the airport itself
+const ENDPOINT_TOLERANCE_KM = 5;
+
+export function createRoutePath(points: [number, number][]): RoutePath {
+  const cumulativeKm = [0];
+  for (let i = 1; i < points.length; i++) {
+    const [lat1, lon1] = points[i - 1];
+    const [lat2, lon2] = points[i];
+    cumulativeKm.push(cumulativeKm[i - 1] + getGreatCircleDistance(lat1, lon1, lat2, lon2));
+  }
+  return { points, cumulativeKm, totalKm: cumulativeKm[cumulativeKm.length - 1] };
+}
+
+// Joins imported waypoints to the departure and arrival airports, unless the
+// waypoint list already starts or ends there
+export function routeBetween(
+  source: { lat: number; lon: number },
+  destination: { lat: number; lon: number },
+  waypoints: [number, number][] = []
+): RoutePath {
+  const near = ([lat, lon]: [number, number], airport: { lat: number; lon: number }) =>
+    getGreatCircleDistance(lat, lon, airport.lat, airport.lon) < ENDPOINT_TOLERANCE_KM;
+  const inner = waypoints.filter((p, i) =>
+    !(i === 0 && near(p, source)) && !(i === waypoints.length - 1 && near(p, destination)));
+  return createRoutePath([[source.lat, source.lon], ...inner, [destination.lat, destination.lon]]);
+}
+
+// Position and track at a fraction of the route's length. The heading is the
+// great-circle track at that point, i.e. the bearing towards the end of the
+// current segment, so it varies smoothly within a segment.
+export function pointAlongPath(path: RoutePath, frac: number): { lat: number; lon: number; heading: number } {
+  const { points, cumulativeKm, totalKm } = path;
+  const target = Math.min(1, Math.max(0, frac)) * totalKm;
+  // Last segment whose start is at or before the target, skipping zero-length ones
+  let i = 0;
+  while (i < points.length - 2 && cumulativeKm[i + 1] <= target) i++;
+  const segmentKm = cumulativeKm[i + 1] - cumulativeKm[i];
+  const t = segmentKm > 0 ? (target - cumulativeKm[i]) / segmentKm : 0;
+  const [lat1, lon1] = points[i];
+  const [lat2, lon2] = points[i + 1];
+  const { lat, lon } = interpolateGreatCircle(lat1, lon1, lat2, lon2, t);
+  // At the very end of a segment the bearing to its end point is undefined,
+  // so take the track just before it
+  const from = t < 1 ? { lat, lon } : interpolateGreatCircle(lat1, lon1, lat2, lon2, 1 - 1e-6);
+  return { lat, lon, heading: getInitialBearing(from.lat, from.lon, lat2, lon2) };
+}
+
+// Densifies each segment into a map-ready polyline of [lat, lon] points
+export function pathPolyline(path: RoutePath, stepsPerSegment: number): [number, number][] {
+  const line: [number, number][] = [path.points[0]];
+  for (let i = 1; i < path.points.length; i++) {
+    const [lat1, lon1] = path.points[i - 1];
+    const [lat2, lon2] = path.points[i];
+    for (let s = 1; s <= stepsPerSegment; s++) {
+      const p = interpolateGreatCircle(lat1, lon1, lat2, lon2, s / stepsPerSegment);
+      line.push([p.lat, p.lon]);
+    }
+  }
+  return line;
+}
@@ -0,0 +1,165 @@
+import SunCalc from 'suncalc';
+import { classifySide, getInitialBearing, getVisibleSunAltitude, interpolateGreatCircle } from './sunUtils';
+import { aircraftAltitudeAt } from './flightProfile';
+import { pointAlongPath, type RoutePath } from './routePath';
+import type { SunSample } from './flightAnalysis';
+import type { TrackPoint } from './trackImport';
+
+// Where the aircraft is, where it's pointing and how high it is at a given
+// fraction of the flight
+export interface AircraftState {
+  lat: number;
+  lon: number;
+  heading: number; // deg
+  aircraftAltitude: number; // m
+}
+
+// A flight over time: either a planned route or a recorded track
+export interface FlightModel {
+  start: Date;
+  durationHours: number;
+  stateAt: (frac: number) => AircraftState;
+}
+
+// Time is spread along the path in proportion to distance
+export interface RouteDefinition {
+  path: RoutePath;
+  start: Date;
+  durationHours: number;
+  cruiseAltitudeM: number;
+}
+
+// Coarse spacing used for long flights; shorter flights get at least
+// MIN_INTERVALS so a one-hour hop isn't described by six points
+export const DEFAULT_MAX_INTERVAL_MINUTES = 10;
+const MIN_INTERVALS = 60;
+// Root finding stops once the bracket is this narrow
+const TIME_TOLERANCE_MS = 500;
+
+// Planned flight along a path, with the standard climb/cruise/descent profile
+export function routeModel(route: RouteDefinition): FlightModel {
+  const { path, start, durationHours, cruiseAltitudeM } = route;
+  return {
+    start,
+    durationHours,
+    stateAt: frac => ({
+      ...pointAlongPath(path, frac),
+      aircraftAltitude: aircraftAltitudeAt(frac * durationHours, durationHours, cruiseAltitudeM),
+    }),
+  };
+}
+
+// Recorded flight: position is interpolated between track points in time, and
+// the recorded heading and altitude are used where the export has them.
+// Missing headings fall back to the bearing between points and missing
+// altitudes to the standard profile at `cruiseAltitudeM`.
+export function trackModel(track: TrackPoint[], cruiseAltitudeM: number): FlightModel {
+  const start = track[0].time.getTime();
+  const totalMs = track[track.length - 1].time.getTime() - start;
+  const durationHours = totalMs / 3600000;
+  const bearing = (i: number) => (i < track.length - 1
+    ? getInitialBearing(track[i].lat, track[i].lon, track[i + 1].lat, track[i + 1].lon)
+    : getInitialBearing(track[i - 1].lat, track[i - 1].lon, track[i].lat, track[i].lon));
+  return {
+    start: track[0].time,
+    durationHours,
+    stateAt: frac => {
+      const t = start + frac * totalMs;
+      // Segment containing t, by binary search
+      let lo = 0;
+      let hi = track.length - 1;
+      while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (track[mid].time.getTime() <= t) lo = mid;
+        else hi = mid;
+      }
+      const a = track[lo];
+      const b = track[hi];
+      const span = b.time.getTime() - a.time.getTime();
+      const f = span > 0 ? Math.min(1, Math.max(0, (t - a.time.getTime()) / span)) : 0;
+      const { lat, lon } = interpolateGreatCircle(a.lat, a.lon, b.lat, b.lon, f);
+      let heading: number;
+      if (a.heading !== undefined && b.heading !== undefined) {
+        const turn = ((b.heading - a.heading + 540) % 360) - 180;
+        heading = (a.heading + f * turn + 360) % 360;
+      } else {
+        heading = a.heading ?? bearing(lo);
+      }
+      const aircraftAltitude = a.altitudeM !== undefined && b.altitudeM !== undefined
+        ? a.altitudeM + f * (b.altitudeM - a.altitudeM)
+        : aircraftAltitudeAt(frac * durationHours, durationHours, cruiseAltitudeM);
+      return { lat, lon, heading, aircraftAltitude };
+    },
+  };
+}
+
+// Sun position relative to the aircraft at a given fraction of the flight
+export function sampleAt(model: FlightModel, frac: number): SunSample {
+  const { lat, lon, heading, aircraftAltitude } = model.stateAt(frac);
+  const time = new Date(model.start.getTime() + frac * model.durationHours * 3600000);
+  const sun = SunCalc.getPosition(time, lat, lon);
+  const azimuth = (sun.azimuth * 180) / Math.PI + 180;
+  const altitude = (sun.altitude * 180) / Math.PI;
+  const relativeAngle = (azimuth - heading + 360) % 360;
+  return {
+    time,
+    lat,
+    lon,
+    azimuth,
+    altitude,
+    horizonAltitude: getVisibleSunAltitude(altitude, aircraftAltitude),
+    aircraftAltitude,
+    heading,
+    relativeAngle,
+    side: classifySide(relativeAngle),
+  };
+}
+
+// Bisects [a, b] for the moment `changed` first becomes true, assuming it is
+// false at a and true at b. Returns the end of the final bracket.
+export function bisectTime(a: number, b: number, changed: (t: number) => boolean, toleranceMs = TIME_TOLERANCE_MS): number {
+  let lo = a;
+  let hi = b;
+  while (hi - lo > toleranceMs) {
+    const mid = (lo + hi) / 2;
+    if (changed(mid)) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+}
+
+// Exactly `count` evenly spaced samples, for drawing
+export function sampleEvenly(model: FlightModel, count: number): SunSample[] {
+  const intervals = Math.max(1, Math.round(count) - 1);
+  return Array.from({ length: intervals + 1 }, (_, i) => sampleAt(model, i / intervals));
+}
+
+// Samples the flight at most `maxIntervalMinutes` apart, then adds a sample at
+// each moment the sun crosses the visible horizon or moves to another side of
+// the aircraft, located to within half a second by bisection
+export function sampleAdaptive(model: FlightModel, maxIntervalMinutes = DEFAULT_MAX_INTERVAL_MINUTES): SunSample[] {
+  const totalMs = model.durationHours * 3600000;
+  const intervals = Math.max(MIN_INTERVALS, Math.ceil((model.durationHours * 60) / maxIntervalMinutes));
+  const coarse = sampleEvenly(model, intervals + 1);
+  const at = (t: number) => sampleAt(model, (t - model.start.getTime()) / totalMs);
+
+  const samples: SunSample[] = [coarse[0]];
+  for (let i = 1; i < coarse.length; i++) {
+    const a = coarse[i - 1];
+    const b = coarse[i];
+    const refined: SunSample[] = [];
+    const up = (s: SunSample) => s.horizonAltitude >= 0;
+    if (up(a) !== up(b)) {
+      refined.push(at(bisectTime(a.time.getTime(), b.time.getTime(), t => up(at(t)) !== up(a))));
+    }
+    if (a.side !== b.side) {
+      refined.push(at(bisectTime(a.time.getTime(), b.time.getTime(), t => at(t).side !== a.side)));
+    }
+    refined
+      .filter(s => s.time.getTime() < b.time.getTime())
+      .sort((x, y) => x.time.getTime() - y.time.getTime())
+      .forEach(s => samples.push(s));
+    samples.push(b);
+  }
+  return samples;
+}
@@ -0,0 +1,93 @@
+// HelioRoute service worker. vite.config.ts fills in BUILD and SHELL and
+// writes this file out as /sw.js; see main.tsx for registration.
+//
+// - App shell (HTML, scripts, styles, bundled images): precached on install
+//   and served cache-first, so the app starts with no connection at all.
+// - Map tiles: cached as they are viewed, newest kept, so areas looked at
+//   before boarding stay available in flight. Tiles that aren't cached fail
+//   and the bundled world basemap drawn under them shows through.
+// - Anything else (fonts, geocoding) goes to the network, falling back to
+//   whatever was cached from an earlier visit.
+
+const BUILD = '__BUILD__';
+const SHELL = __SHELL__;
+
+const SHELL_CACHE = `helioroute-shell-${BUILD}`;
+const TILE_CACHE = 'helioroute-tiles';
+const RUNTIME_CACHE = 'helioroute-runtime';
+const MAX_TILES = 2000;
+const TILE_HOSTS = ['basemaps.cartocdn.com', 'tile.openstreetmap.org'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Drops the shells of earlier builds
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith('helioroute-shell-') && key !== SHELL_CACHE)
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (TILE_HOSTS.some(host => url.hostname.endsWith(host))) {
+    event.respondWith(tile(request));
+  } else if (request.mode === 'navigate') {
+    // Always the one page; query strings carry shared routes
+    event.respondWith(fetch(request).catch(() => caches.match('./index.html', { cacheName: SHELL_CACHE })));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request, { cacheName: SHELL_CACHE }).then(hit => hit ?? networkFirst(request)));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+// The tile layer asks for CORS responses; a tile still fetched without CORS
+// comes back opaque (status 0, ok false) and is cached as it is. An uncached
+// tile while offline fails quietly, leaving the basemap beneath visible.
+async function tile(request) {
+  const cache = await caches.open(TILE_CACHE);
+  const hit = await cache.match(request);
+  if (hit) return hit;
+  try {
+    const response = await fetch(request);
+    if (response.ok || response.type === 'opaque') {
+      await cache.put(request, response.clone());
+      trimTiles(cache);
+    }
+    return response;
+  } catch {
+    return Response.error();
+  }
+}
+
+// Keys come back oldest first, so evict from the front
+async function trimTiles(cache) {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_TILES)).map(key => cache.delete(key)));
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(RUNTIME_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok || response.type === 'opaque') await cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const hit = await cache.match(request);
+    if (hit) return hit;
+    throw err;
+  }
+}
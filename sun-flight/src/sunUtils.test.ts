@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { EARTH_RADIUS_KM, formatCoordinates, getGreatCircleDistance, getNightPolygon, getSubsolarPoint, getTerminator } from './sunUtils'
+
+// Angular distance in degrees between two [lat, lon] points
+const angleBetween = (lat1: number, lon1: number, lat2: number, lon2: number) =>
+  (getGreatCircleDistance(lat1, lon1, lat2, lon2) / EARTH_RADIUS_KM) * (180 / Math.PI);
+
+// Obliquity of the ecliptic, the subsolar latitude at the solstices
+const OBLIQUITY = 23.44;
+
+describe('getSubsolarPoint', () => {
+  it('reaches the tropics at the solstices', () => {
+    expect(getSubsolarPoint(new Date('2024-06-20T20:51Z')).lat).toBeCloseTo(OBLIQUITY, 1);
+    expect(getSubsolarPoint(new Date('2024-12-21T09:21Z')).lat).toBeCloseTo(-OBLIQUITY, 1);
+  });
+
+  it('crosses the equator at the equinoxes', () => {
+    expect(getSubsolarPoint(new Date('2024-03-20T03:06Z')).lat).toBeCloseTo(0, 1);
+    expect(getSubsolarPoint(new Date('2024-09-22T12:44Z')).lat).toBeCloseTo(0, 1);
+  });
+
+  it('is near the Greenwich meridian at noon UTC, off by the equation of time', () => {
+    // Mid-February the sun runs about 14 minutes slow: 3.5° east of Greenwich
+    expect(getSubsolarPoint(new Date('2024-02-11T12:00Z')).lon).toBeCloseTo(3.5, 0);
+    // Early November it runs about 16 minutes fast: 4° west
+    expect(getSubsolarPoint(new Date('2024-11-03T12:00Z')).lon).toBeCloseTo(-4.1, 0);
+  });
+
+  it('moves 15° west an hour', () => {
+    const a = getSubsolarPoint(new Date('2024-05-01T06:00Z'));
+    const b = getSubsolarPoint(new Date('2024-05-01T07:00Z'));
+    expect(a.lon - b.lon).toBeCloseTo(15, 1);
+  });
+});
+
+describe('getTerminator', () => {
+  const date = new Date('2024-06-20T20:51Z');
+  const subsolar = getSubsolarPoint(date);
+
+  it('runs 90° from the subsolar point', () => {
+    for (const [lat, lon] of getTerminator(date)) {
+      expect(angleBetween(lat, lon, subsolar.lat, subsolar.lon)).toBeCloseTo(90, 3);
+    }
+  });
+
+  it('runs 90° plus the depression for twilight limits', () => {
+    for (const [lat, lon] of getTerminator(date, -12)) {
+      expect(angleBetween(lat, lon, subsolar.lat, subsolar.lon)).toBeCloseTo(102, 3);
+    }
+  });
+
+  it('spans every longitude at the given step', () => {
+    const line = getTerminator(date, 0, 5);
+    expect(line).toHaveLength(73);
+    expect(line[0][1]).toBe(-180);
+    expect(line[line.length - 1][1]).toBe(180);
+  });
+
+  it('clamps to the pole where the sun never reaches the threshold', () => {
+    // At the equinox the sun sits on the horizon all along the meridians 90°
+    // from it, never 6° below
+    const line = getTerminator(new Date('2024-03-20T03:06Z'), -6);
+    expect(line.some(([lat]) => Math.abs(lat) === 90)).toBe(true);
+  });
+});
+
+describe('getNightPolygon', () => {
+  it('closes around the pole in darkness', () => {
+    const june = getNightPolygon(new Date('2024-06-20T20:51Z'));
+    expect(june.slice(-2)).toEqual([[-90, 180], [-90, -180]]);
+    const december = getNightPolygon(new Date('2024-12-21T09:21Z'));
+    expect(december.slice(-2)).toEqual([[90, 180], [90, -180]]);
+  });
+});
+
+describe('formatCoordinates', () => {
+  it('writes hemispheres as letters, not signs', () => {
+    expect(formatCoordinates(-33.87, -151.21)).toBe('33.87°S 151.21°W');
+    expect(formatCoordinates(28.57, 77.1)).toBe('28.57°N 77.10°E');
+  });
+});
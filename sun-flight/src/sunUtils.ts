@@ -1,5 +1,7 @@
 import SunCalc from 'suncalc';
 
+export type SunSide = 'Left' | 'Right' | 'Ahead' | 'Behind';
+
 // Returns sun azimuth in degrees at a given location and time
 export function getSunAzimuth(lat: number, lon: number, date: Date): number {
   const sunPos = SunCalc.getPosition(date, lat, lon);
@@ -71,4 +73,121 @@ export function interpolateGreatCircle(lat1: number, lon1: number, lat2: number,
   const φ = Math.atan2(z, Math.sqrt(x * x + y * y));
   const λ = Math.atan2(y, x);
   return { lat: toDeg(φ), lon: ((toDeg(λ) + 540) % 360) - 180 };
-} 
\ No newline at end of file
+} 
+
+export const EARTH_RADIUS_KM = 6371;
+
+// Great-circle (haversine) distance between two points in kilometres
+export function getGreatCircleDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dPhi = toRad(lat2 - lat1);
+  const dLambda = toRad(lon2 - lon1);
+  const a = Math.sin(dPhi / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLambda / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Latitude and longitude with hemisphere letters, e.g. "33.87°S 151.21°E"
+export function formatCoordinates(lat: number, lon: number, digits = 2): string {
+  return `${Math.abs(lat).toFixed(digits)}°${lat >= 0 ? 'N' : 'S'} ${Math.abs(lon).toFixed(digits)}°${lon >= 0 ? 'E' : 'W'}`;
+}
+
+// Point on Earth where the sun is directly overhead. Uses the low-precision
+// solar ephemeris from the Astronomical Almanac (good to ~0.01°), so the
+// equation of time is included via right ascension and sidereal time.
+export function getSubsolarPoint(date: Date): { lat: number; lon: number } {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const toDeg = (rad: number) => (rad * 180) / Math.PI;
+  const n = date.getTime() / 86400000 + 2440587.5 - 2451545.0; // days since J2000.0
+  const meanLongitude = (280.460 + 0.9856474 * n) % 360;
+  const meanAnomaly = toRad((357.528 + 0.9856003 * n) % 360);
+  const eclipticLongitude = toRad(meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.020 * Math.sin(2 * meanAnomaly));
+  const obliquity = toRad(23.439 - 0.0000004 * n);
+  const rightAscension = Math.atan2(Math.cos(obliquity) * Math.sin(eclipticLongitude), Math.cos(eclipticLongitude));
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(eclipticLongitude));
+  const gmstHours = (18.697374558 + 24.06570982441908 * n) % 24;
+  const lon = ((((toDeg(rightAscension) - gmstHours * 15) % 360) + 540) % 360) - 180;
+  return { lat: toDeg(declination), lon };
+}
+
+// Line where the sun sits at `sunAltitude` degrees (0 for the day/night
+// boundary, -6/-12/-18 for the edges of civil/nautical/astronomical twilight),
+// as [lat, lon] pairs from -180° to 180° longitude. Where no such latitude
+// exists (polar day or night) the point is clamped to the pole.
+export function getTerminator(date: Date, sunAltitude = 0, stepDeg = 2): [number, number][] {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const toDeg = (rad: number) => (rad * 180) / Math.PI;
+  const subsolar = getSubsolarPoint(date);
+  const decl = toRad(subsolar.lat);
+  const sinH = Math.sin(toRad(sunAltitude));
+  const points: [number, number][] = [];
+  for (let lon = -180; lon <= 180; lon += stepDeg) {
+    const hourAngle = toRad(lon - subsolar.lon);
+    // sin(alt) = sin(φ)·sin(δ) + cos(φ)·cos(δ)·cos(H), written as R·sin(φ + α)
+    const a = Math.sin(decl);
+    const b = Math.cos(decl) * Math.cos(hourAngle);
+    const r = Math.hypot(a, b);
+    let lat: number;
+    if (r < 1e-9) {
+      lat = 0;
+    } else if (Math.abs(sinH / r) > 1) {
+      // The whole meridian is on one side of the threshold: run along the pole
+      // that keeps the dark region closed
+      lat = (sinH > 0) === (a > 0) ? 90 : -90;
+    } else {
+      const alpha = Math.atan2(b, a);
+      lat = toDeg(Math.asin(sinH / r) - alpha);
+      if (lat < -90 || lat > 90) lat = toDeg(Math.PI - Math.asin(sinH / r) - alpha);
+      lat = ((lat + 540) % 360) - 180;
+      lat = Math.max(-90, Math.min(90, lat));
+    }
+    points.push([lat, lon]);
+  }
+  return points;
+}
+
+// Polygon covering the part of the globe where the sun is below `sunAltitude`,
+// closed around whichever pole is in darkness
+export function getNightPolygon(date: Date, sunAltitude = 0): [number, number][] {
+  const line = getTerminator(date, sunAltitude);
+  const darkPole = getSubsolarPoint(date).lat >= 0 ? -90 : 90;
+  return [...line, [darkPole, 180], [darkPole, -180]];
+}
+
+// Sun's angular radius; sunrise/sunset are when its upper limb touches the horizon
+export const SUN_SEMIDIAMETER_DEG = 0.267;
+
+// How far the visible horizon drops below the horizontal for an observer
+// `heightM` above the surface, including the usual terrestrial refraction
+// allowance (1.76′ × √h)
+export function getHorizonDip(heightM: number): number {
+  return heightM > 0 ? (1.76 / 60) * Math.sqrt(heightM) : 0;
+}
+
+// Atmospheric refraction in degrees for a body at `trueAltitude` (Sæmundsson's
+// formula), scaled by air pressure at the observer's height. Below -1° the
+// formula breaks down, so the value there is held at its -1° level.
+export function getRefraction(trueAltitude: number, heightM = 0): number {
+  const h = Math.max(trueAltitude, -1);
+  const arcmin = 1.02 / Math.tan(((h + 10.3 / (h + 5.11)) * Math.PI) / 180);
+  const pressureRatio = Math.exp(-heightM / 8434); // isothermal scale height
+  return (arcmin / 60) * pressureRatio;
+}
+
+// Altitude of the sun's upper limb above the horizon actually visible from
+// `heightM`; the sun is in view whenever this is >= 0
+export function getVisibleSunAltitude(trueAltitude: number, heightM = 0): number {
+  return trueAltitude + getRefraction(trueAltitude, heightM) + SUN_SEMIDIAMETER_DEG + getHorizonDip(heightM);
+}
+
+// Bins an azimuth relative to the aircraft nose into one of four 90° sectors
+export function classifySide(relativeAngle: number): SunSide {
+  if (relativeAngle > 45 && relativeAngle <= 135) return 'Right';
+  if (relativeAngle > 225 && relativeAngle <= 315) return 'Left';
+  if (relativeAngle > 135 && relativeAngle <= 225) return 'Behind';
+  return 'Ahead';
+}
+
+// Phrase for where the sun is, e.g. 'on the left' or 'ahead'
+export function describeSide(side: SunSide): string {
+  return side === 'Left' || side === 'Right' ? `on the ${side.toLowerCase()}` : side.toLowerCase();
+}
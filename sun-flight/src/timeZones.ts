@@ -0,0 +1,128 @@
+import { DateTime, IANAZone } from 'luxon';
+import { journeySampleAt, type ItineraryReport, type JourneySample } from './itinerary';
+import { timezoneAt } from './timezoneLookup';
+
+// Local time along the route: which zone to show times in, and where the
+// clock changes under the aircraft
+
+export type ReferenceZone = 'utc' | 'origin' | 'destination' | 'below';
+
+export const REFERENCE_ZONES: { key: ReferenceZone; label: string }[] = [
+  { key: 'utc', label: 'UTC' },
+  { key: 'origin', label: 'Origin' },
+  { key: 'destination', label: 'Destination' },
+  { key: 'below', label: 'Ground below' },
+];
+
+export interface TimezoneCrossing {
+  time: Date;
+  lat: number;
+  lon: number;
+  leg: number;
+  from: string; // IANA zones either side
+  to: string;
+  jumpMinutes: number; // local clock change, e.g. 60 = clocks go forward an hour
+  dateLine: boolean; // the local date jumps a day
+}
+
+// Bisection steps locating a crossing between two samples; 10 halvings of a
+// sample interval of a few minutes is well under a second
+const CROSSING_STEPS = 10;
+
+// IANA zone for the reference, at a point (only 'below' depends on where)
+export function referenceZoneName(reference: ReferenceZone, report: ItineraryReport, lat: number, lon: number): string {
+  switch (reference) {
+    case 'utc':
+      return 'UTC';
+    case 'origin':
+      return report.legs[0].source.timezone;
+    case 'destination':
+      return report.legs[report.legs.length - 1].destination.timezone;
+    case 'below':
+      return timezoneAt(lat, lon);
+  }
+}
+
+export function formatInZone(time: Date, zone: string, format: string): string {
+  return DateTime.fromJSDate(time, { zone }).toFormat(format);
+}
+
+// Minutes from UTC of a zone at a moment
+export function utcOffsetMinutes(zone: string, time: Date): number {
+  return IANAZone.create(zone).offset(time.getTime());
+}
+
+// 'UTC+5:30', 'UTC−4', 'UTC'
+export function formatUtcOffset(minutes: number): string {
+  if (minutes === 0) return 'UTC';
+  const h = Math.floor(Math.abs(minutes) / 60);
+  const m = Math.abs(minutes) % 60;
+  return `UTC${minutes < 0 ? '−' : '+'}${h}${m ? `:${String(m).padStart(2, '0')}` : ''}`;
+}
+
+// 'New York (UTC−4)'; nautical zones read 'UTC−3 at sea'
+export function describeZone(zone: string, time: Date): string {
+  const offset = formatUtcOffset(utcOffsetMinutes(zone, time));
+  if (zone === 'UTC') return offset;
+  if (zone.startsWith('Etc/')) return `${offset} at sea`;
+  return `${zone.split('/').pop()!.replace(/_/g, ' ')} (${offset})`;
+}
+
+// '+1 h', '−30 min', '+5 h 30 min'
+export function formatClockJump(minutes: number): string {
+  const sign = minutes < 0 ? '−' : '+';
+  const h = Math.floor(Math.abs(minutes) / 60);
+  const m = Math.abs(minutes) % 60;
+  return `${sign}${[h && `${h} h`, m && `${m} min`].filter(Boolean).join(' ') || '0 min'}`;
+}
+
+// Spans of consecutive samples keeping the same UTC offset below
+interface ZoneRun {
+  zone: string;
+  offset: number;
+  first: number; // sample indices
+  last: number;
+}
+
+function zoneRuns(samples: JourneySample[]): ZoneRun[] {
+  const runs: ZoneRun[] = [];
+  samples.forEach((s, i) => {
+    const zone = timezoneAt(s.lat, s.lon);
+    const offset = utcOffsetMinutes(zone, s.time);
+    const run = runs[runs.length - 1];
+    if (run && (run.offset === offset || s.phase === 'ground')) run.last = i;
+    else runs.push({ zone, offset, first: i, last: i });
+  });
+  return runs;
+}
+
+// Every point along the journey where the local clock under the aircraft
+// changes, in time order. Neighbouring zones that keep the same time (Paris
+// and Berlin) aren't crossings.
+export function findTimezoneCrossings(samples: JourneySample[]): TimezoneCrossing[] {
+  const runs = zoneRuns(samples);
+  return runs.slice(1).map((run, i) => {
+    const { zone: from, offset } = runs[i];
+    // Narrow down to where the offset below changes, between the runs
+    let lo = samples[runs[i].last].time.getTime();
+    let hi = samples[run.first].time.getTime();
+    for (let step = 0; step < CROSSING_STEPS; step++) {
+      const mid = (lo + hi) / 2;
+      const s = journeySampleAt(samples, new Date(mid));
+      if (utcOffsetMinutes(timezoneAt(s.lat, s.lon), s.time) === offset) lo = mid;
+      else hi = mid;
+    }
+    const at = journeySampleAt(samples, new Date(hi));
+    const jumpMinutes = run.offset - offset;
+    return {
+      time: at.time,
+      lat: at.lat,
+      lon: at.lon,
+      leg: at.leg,
+      from,
+      to: run.zone,
+      jumpMinutes,
+      dateLine: Math.abs(jumpMinutes) >= 12 * 60,
+    };
+  });
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { nauticalZone, timezoneAt } from './timezoneLookup'
+
+describe('timezoneAt', () => {
+  it('finds the zone of a point on land', () => {
+    expect(timezoneAt(51.5, -0.12)).toBe('Europe/London');
+    expect(timezoneAt(27.7, 85.3)).toBe('Asia/Kathmandu');
+    expect(timezoneAt(-31.95, 141.45)).toBe('Australia/Broken_Hill');
+  });
+
+  it('keeps border towns on their own side', () => {
+    expect(timezoneAt(31.76, -106.48)).toBe('America/Denver'); // El Paso
+    expect(timezoneAt(42.0, -87.9)).toBe('America/Chicago');
+    expect(timezoneAt(41.0, -80.5)).toBe('America/New_York');
+  });
+
+  it('uses the nearest coast offshore and the nautical zone in open sea', () => {
+    expect(timezoneAt(51.05, 1.45)).toBe('Europe/London'); // Strait of Dover
+    expect(timezoneAt(30, -45)).toBe('Etc/GMT+3');
+    expect(timezoneAt(0, -140)).toBe('Etc/GMT+9');
+  });
+
+  it('wraps longitudes', () => {
+    expect(timezoneAt(51.5, 359.88)).toBe('Europe/London');
+  });
+});
+
+describe('nauticalZone', () => {
+  it('gives whole hours with the inverted Etc/GMT sign', () => {
+    expect(nauticalZone(0)).toBe('Etc/GMT');
+    expect(nauticalZone(-35)).toBe('Etc/GMT+2');
+    expect(nauticalZone(100)).toBe('Etc/GMT-7');
+    expect(nauticalZone(179)).toBe('Etc/GMT-12');
+    expect(nauticalZone(-179)).toBe('Etc/GMT+12');
+  });
+});
@@ -0,0 +1,126 @@
+import boundaries from './timezoneBoundaries.json';
+import { EARTH_RADIUS_KM } from './sunUtils';
+
+// Offline IANA time zone for any point, by point-in-polygon against bundled
+// zone boundaries: Eric Muller's public-domain tz_world land polygons,
+// simplified to about 10 km and stored as [zone index, ...rings], each ring
+// a flat [lon, lat, lon, lat, ...] list in hundredths of a degree (the
+// first ring the outline, any others holes). Islands under ~30 km² are left
+// out, except the largest piece of each zone.
+//
+// The polygons cover land only. Offshore, a point within COAST_KM of land
+// takes the zone of the nearest coast, so bays, straits and island chains
+// don't flicker to sea time and back; the reach is that of an exclusive
+// economic zone, 200 nautical miles. Further out a point gets the nautical
+// zone of its longitude (Etc/GMT±N, whole hours from UTC), as ships keep.
+
+export const COAST_KM = 370;
+const CELL_DEG = 5;
+const SCALE = 100;
+
+interface ZonePolygon {
+  zone: string;
+  rings: Float64Array[]; // [lon, lat, lon, lat, ...] in degrees
+  box: [number, number, number, number]; // west, south, east, north
+}
+
+let grid: Map<string, ZonePolygon[]> | null = null;
+
+const cellKey = (row: number, col: number) => `${row}:${col}`;
+const cellRow = (lat: number) => Math.floor((lat + 90) / CELL_DEG);
+const cellCol = (lon: number) => Math.floor((lon + 180) / CELL_DEG);
+
+// Polygons bucketed by the grid cells their bounding boxes touch, built on first use
+function polygonGrid(): Map<string, ZonePolygon[]> {
+  if (grid) return grid;
+  const polygons = (boundaries.polygons as (number | number[])[][]).map(([zoneIndex, ...rings]) => {
+    const degrees = (rings as number[][]).map(ring => Float64Array.from(ring, v => v / SCALE));
+    const outline = degrees[0];
+    const box: ZonePolygon['box'] = [180, 90, -180, -90];
+    for (let i = 0; i < outline.length; i += 2) {
+      box[0] = Math.min(box[0], outline[i]);
+      box[1] = Math.min(box[1], outline[i + 1]);
+      box[2] = Math.max(box[2], outline[i]);
+      box[3] = Math.max(box[3], outline[i + 1]);
+    }
+    return { zone: boundaries.zones[zoneIndex as number], rings: degrees, box };
+  });
+  grid = new Map();
+  for (const polygon of polygons) {
+    const [west, south, east, north] = polygon.box;
+    for (let row = cellRow(south); row <= cellRow(north); row++) {
+      for (let col = cellCol(west); col <= cellCol(east); col++) {
+        const key = cellKey(row, col);
+        grid.set(key, [...(grid.get(key) ?? []), polygon]);
+      }
+    }
+  }
+  return grid;
+}
+
+// Even-odd ray casting
+function inRing(ring: Float64Array, lon: number, lat: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 2; i < ring.length; j = i, i += 2) {
+    const x1 = ring[i], y1 = ring[i + 1], x2 = ring[j], y2 = ring[j + 1];
+    if ((y1 > lat) !== (y2 > lat) && lon < x1 + ((lat - y1) * (x2 - x1)) / (y2 - y1)) inside = !inside;
+  }
+  return inside;
+}
+
+function inPolygon(polygon: ZonePolygon, lon: number, lat: number): boolean {
+  const [west, south, east, north] = polygon.box;
+  if (lon < west || lon > east || lat < south || lat > north) return false;
+  return inRing(polygon.rings[0], lon, lat) && !polygon.rings.slice(1).some(hole => inRing(hole, lon, lat));
+}
+
+// Distance in km from a point to a polygon's outline, on a local flat
+// projection (fine within the few hundred km it is used for)
+function distanceToOutline(polygon: ZonePolygon, lon: number, lat: number): number {
+  const kmPerDeg = (EARTH_RADIUS_KM * Math.PI) / 180;
+  const cosLat = Math.cos((lat * Math.PI) / 180);
+  const ring = polygon.rings[0];
+  let best = Infinity;
+  for (let i = 0, j = ring.length - 2; i < ring.length; j = i, i += 2) {
+    const ax = (ring[j] - lon) * cosLat, ay = ring[j + 1] - lat;
+    const bx = (ring[i] - lon) * cosLat, by = ring[i + 1] - lat;
+    const dx = bx - ax, dy = by - ay;
+    const t = dx || dy ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / (dx * dx + dy * dy))) : 0;
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return best * kmPerDeg;
+}
+
+function polygonsNear(lat: number, lon: number, reachDeg: number): Set<ZonePolygon> {
+  const cells = polygonGrid();
+  const found = new Set<ZonePolygon>();
+  for (let row = cellRow(Math.max(-90, lat - reachDeg)); row <= cellRow(Math.min(90, lat + reachDeg)); row++) {
+    for (let col = cellCol(lon - reachDeg); col <= cellCol(lon + reachDeg); col++) {
+      const wrapped = ((col % (360 / CELL_DEG)) + 360 / CELL_DEG) % (360 / CELL_DEG);
+      for (const polygon of cells.get(cellKey(row, wrapped)) ?? []) found.add(polygon);
+    }
+  }
+  return found;
+}
+
+// Nautical time zone for a longitude. Etc/GMT signs are inverted: Etc/GMT-5 is UTC+5.
+export function nauticalZone(lon: number): string {
+  const hours = Math.round((((lon + 180) % 360 + 360) % 360 - 180) / 15);
+  if (hours === 0) return 'Etc/GMT';
+  return `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`;
+}
+
+export function timezoneAt(lat: number, lon: number): string {
+  const x = (((lon + 180) % 360) + 360) % 360 - 180;
+  const cell = polygonGrid().get(cellKey(cellRow(lat), cellCol(x))) ?? [];
+  const containing = cell.find(polygon => inPolygon(polygon, x, lat));
+  if (containing) return containing.zone;
+  // Offshore: the nearest land within reach
+  const reachDeg = COAST_KM / ((EARTH_RADIUS_KM * Math.PI) / 180) / Math.max(0.1, Math.cos((lat * Math.PI) / 180));
+  let nearest: { zone: string; km: number } | null = null;
+  for (const polygon of polygonsNear(lat, x, reachDeg)) {
+    const km = distanceToOutline(polygon, x, lat);
+    if (km <= COAST_KM && (!nearest || km < nearest.km)) nearest = { zone: polygon.zone, km };
+  }
+  return nearest?.zone ?? nauticalZone(x);
+}
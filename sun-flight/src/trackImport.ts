@@ -0,0 +1,121 @@
+import { parseCsv } from './csv';
+import { FEET_PER_METER } from './flightProfile';
+
+export interface TrackPoint {
+  time: Date;
+  lat: number;
+  lon: number;
+  altitudeM?: number;
+  heading?: number; // deg, recorded track over the ground
+}
+
+// Header names used by common flight-tracker exports (Flightradar24,
+// ADS-B Exchange, FlightAware-style tables), compared in lower case
+const TIME_COLUMNS = ['utc', 'timestamp', 'time', 'datetime', 'date_time', 'when'];
+const POSITION_COLUMNS = ['position'];
+const LAT_COLUMNS = ['latitude', 'lat'];
+const LON_COLUMNS = ['longitude', 'lon', 'lng', 'long'];
+const ALTITUDE_COLUMNS = ['altitude', 'alt', 'altitude (ft)', 'altitude_ft', 'feet', 'alt_baro', 'altitude (m)', 'altitude_m', 'alt_m'];
+const HEADING_COLUMNS = ['heading', 'direction', 'track', 'course', 'true_track'];
+
+// Exports give altitude in feet unless the header says metres
+const isMetreColumn = (name: string) => /\(m\)|_m$/.test(name);
+
+// Unix seconds or milliseconds, or an ISO-like date-time read as UTC
+function parseTime(value: string): Date | null {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const n = Number(trimmed);
+    return new Date(n < 1e12 ? n * 1000 : n);
+  }
+  const iso = /[zZ]|[+-]\d\d:?\d\d$/.test(trimmed) ? trimmed : `${trimmed.replace(' ', 'T')}Z`;
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+const optionalNumber = (value: string | undefined) => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+// Sorts by time, drops repeated timestamps and checks there is a track left
+function checkTrack(points: TrackPoint[]): TrackPoint[] {
+  const sorted = points
+    .sort((a, b) => a.time.getTime() - b.time.getTime())
+    .filter((p, i, all) => i === 0 || p.time.getTime() > all[i - 1].time.getTime());
+  if (sorted.length < 2) throw new Error('A track needs at least two timestamped positions.');
+  return sorted;
+}
+
+export function parseTrackCsv(text: string): TrackPoint[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error('Track file is empty.');
+  const names = header.map(h => h.trim().toLowerCase());
+  const find = (candidates: string[]) => candidates.map(c => names.indexOf(c)).find(i => i >= 0) ?? -1;
+  const timeCol = find(TIME_COLUMNS);
+  const positionCol = find(POSITION_COLUMNS);
+  const latCol = find(LAT_COLUMNS);
+  const lonCol = find(LON_COLUMNS);
+  const altCol = find(ALTITUDE_COLUMNS);
+  const headingCol = find(HEADING_COLUMNS);
+  if (timeCol < 0) throw new Error('Track CSV has no time column.');
+  if (positionCol < 0 && (latCol < 0 || lonCol < 0)) throw new Error('Track CSV has no position or latitude/longitude columns.');
+  const altitudeScale = altCol >= 0 && isMetreColumn(names[altCol]) ? 1 : 1 / FEET_PER_METER;
+
+  const points: TrackPoint[] = rows.map((row, i) => {
+    const line = i + 2;
+    const time = parseTime(row[timeCol] ?? '');
+    if (!time) throw new Error(`Line ${line}: invalid time "${row[timeCol] ?? ''}".`);
+    const [lat, lon] = positionCol >= 0
+      ? (row[positionCol] ?? '').split(',').map(Number)
+      : [Number(row[latCol]), Number(row[lonCol])];
+    if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      throw new Error(`Line ${line}: invalid position.`);
+    }
+    const altitude = altCol >= 0 ? optionalNumber(row[altCol]) : undefined;
+    return {
+      time,
+      lat,
+      lon,
+      altitudeM: altitude !== undefined ? Math.max(0, altitude * altitudeScale) : undefined,
+      heading: headingCol >= 0 ? optionalNumber(row[headingCol]) : undefined,
+    };
+  });
+  return checkTrack(points);
+}
+
+// Google Earth tracks (<gx:Track> with paired <when> and <gx:coord>), or one
+// timestamped Placemark per position as in Flightradar24's KML export, where
+// the heading sits in the icon style. KML altitudes are in metres.
+export function parseTrackKml(text: string): TrackPoint[] {
+  const points: TrackPoint[] = [];
+  const whens = [...text.matchAll(/<when>([^<]+)<\/when>/g)].map(m => m[1]);
+  const coords = [...text.matchAll(/<gx:coord>([^<]+)<\/gx:coord>/g)].map(m => m[1]);
+  if (coords.length > 0) {
+    coords.forEach((coord, i) => {
+      const [lon, lat, alt] = coord.trim().split(/\s+/).map(Number);
+      const time = whens[i] ? parseTime(whens[i]) : null;
+      if (time) points.push({ time, lat, lon, altitudeM: optionalNumber(String(alt ?? '')) });
+    });
+  } else {
+    for (const [placemark] of text.matchAll(/<Placemark\b[\s\S]*?<\/Placemark>/g)) {
+      const when = placemark.match(/<when>([^<]+)<\/when>/)?.[1];
+      const coord = placemark.match(/<Point\b[\s\S]*?<coordinates>([^<]+)<\/coordinates>/)?.[1];
+      const time = when ? parseTime(when) : null;
+      if (!time || !coord) continue;
+      const [lon, lat, alt] = coord.trim().split(',').map(Number);
+      const heading = optionalNumber(placemark.match(/<heading>([^<]+)<\/heading>/)?.[1]);
+      points.push({ time, lat, lon, altitudeM: Number.isFinite(alt) ? alt : undefined, heading });
+    }
+  }
+  for (const p of points) {
+    if (!Number.isFinite(p.lat) || !Number.isFinite(p.lon)) throw new Error('KML track has an invalid coordinate.');
+  }
+  return checkTrack(points);
+}
+
+// Picks KML or CSV from the content
+export function parseTrackFile(text: string): TrackPoint[] {
+  return text.trimStart().startsWith('<') ? parseTrackKml(text) : parseTrackCsv(text);
+}
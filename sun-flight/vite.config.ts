@@ -1,7 +1,28 @@
-import { defineConfig } from 'vite'
+import { readFileSync } from 'node:fs'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Public files the app shell needs besides the bundle itself
+const PUBLIC_SHELL = ['./', 'favicon.svg', 'manifest.webmanifest']
+
+// Writes src/serviceWorker.js out as sw.js with this build's files to precache.
+// Runs after Vite's own plugins so index.html is in the bundle.
+function serviceWorker(): Plugin {
+  return {
+    name: 'helioroute-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+      const files = Object.keys(bundle).filter(file => !file.endsWith('.map'))
+      const source = readFileSync(new URL('./src/serviceWorker.js', import.meta.url), 'utf8')
+        .replace('__BUILD__', Date.now().toString(36))
+        .replace('__SHELL__', JSON.stringify([...PUBLIC_SHELL, ...files]))
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
 })